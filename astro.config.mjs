@@ -1,11 +1,27 @@
 import { defineConfig } from 'astro/config';
 import tailwindcss from '@tailwindcss/vite';
 import sitemap from '@astrojs/sitemap';
+import mdx from '@astrojs/mdx';
+import { transformerMetaHighlight, transformerNotationDiff, transformerNotationHighlight } from '@shikijs/transformers';
+import i18nReport from './src/integrations/i18n-report';
+import siteValidation from './src/integrations/site-validation';
+import { transformerCodeBlock } from './src/utils/code-blocks';
+import { defaultLang, locales } from './src/i18n/translations';
+import { getSitemapExclusions } from './src/utils/sitemap';
+
+const sitemapExclusions = getSitemapExclusions();
 
 export default defineConfig({
   site: 'https://varij.dev',
   integrations: [
-    sitemap()
+    mdx(),
+    sitemap({
+      // Links every page to its versions in the other locales
+      i18n: { defaultLocale: defaultLang, locales },
+      filter: (page) => !sitemapExclusions.has(new URL(page).pathname)
+    }),
+    i18nReport(),
+    siteValidation()
   ],
   vite: {
     plugins: [tailwindcss()]
@@ -20,8 +36,12 @@ export default defineConfig({
   },
   markdown: {
     shikiConfig: {
-      theme: 'github-dark',
-      wrap: true
+      // Both themes are emitted as CSS variables; global.css picks one per color scheme
+      themes: { light: 'github-light', dark: 'github-dark' },
+      defaultColor: false,
+      wrap: true,
+      // {2,4-6} and `// [!code highlight]` mark lines, `// [!code ++]` and `// [!code --]` show a diff
+      transformers: [transformerMetaHighlight(), transformerNotationHighlight(), transformerNotationDiff(), transformerCodeBlock()]
     }
   }
 });
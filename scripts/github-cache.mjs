@@ -0,0 +1,72 @@
+// Refreshes the GitHub metadata shown on project pages. Builds only read the
+// result, so they work offline; run this before a build to get fresh numbers.
+//
+//   npm run github:cache                 writes .cache/github-repos.json
+//   npm run github:cache -- --fixture    updates the committed fixture instead
+//
+// Set GITHUB_TOKEN to raise the API rate limit.
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import yaml from 'js-yaml';
+
+const projectsDir = 'src/content/projects';
+const output = process.argv.includes('--fixture') ? 'src/data/github-repos.fixture.json' : '.cache/github-repos.json';
+
+const headers = {
+  Accept: 'application/vnd.github+json',
+  'X-GitHub-Api-Version': '2022-11-28',
+  ...(process.env.GITHUB_TOKEN && { Authorization: `Bearer ${process.env.GITHUB_TOKEN}` }),
+};
+
+async function api(path) {
+  const response = await fetch(`https://api.github.com${path}`, { headers });
+  if (!response.ok) throw new Error(`GET ${path}: ${response.status} ${response.statusText}`);
+  return response.json();
+}
+
+// The `github: owner/name` of every project file, translations included
+async function findRepos() {
+  const files = await readdir(projectsDir, { recursive: true });
+  const repos = new Set();
+  for (const file of files.filter((file) => /\.mdx?$/.test(file))) {
+    const source = await readFile(join(projectsDir, file), 'utf-8');
+    // Same block and parser as parseFrontmatter() in src/utils/content-files.ts
+    const frontmatter = yaml.load(source.match(/^---\r?\n([\s\S]*?)\r?\n---/)?.[1] ?? '');
+    const repo = frontmatter?.github;
+    if (typeof repo === 'string') repos.add(repo);
+  }
+  return [...repos].sort();
+}
+
+async function fetchRepo(repo) {
+  const [info, languages, commits] = await Promise.all([
+    api(`/repos/${repo}`),
+    api(`/repos/${repo}/languages`),
+    api(`/repos/${repo}/commits?per_page=1`),
+  ]);
+  return {
+    url: info.html_url,
+    stars: info.stargazers_count,
+    forks: info.forks_count,
+    lastCommit: commits[0]?.commit.committer.date ?? info.pushed_at,
+    languages,
+    archived: info.archived,
+  };
+}
+
+const repos = {};
+let failed = 0;
+for (const repo of await findRepos()) {
+  try {
+    repos[repo] = await fetchRepo(repo);
+    console.log(`${repo}: ${repos[repo].stars} stars`);
+  } catch (error) {
+    failed++;
+    console.error(`${repo}: ${error.message}`);
+  }
+}
+
+await mkdir(dirname(output), { recursive: true });
+await writeFile(output, JSON.stringify({ fetchedAt: new Date().toISOString(), repos }, null, 2) + '\n');
+console.log(`Wrote ${Object.keys(repos).length} repositories to ${output}`);
+if (failed) process.exitCode = 1;
@@ -1,4 +1,7 @@
 import { defineCollection, z } from "astro:content";
+import { languages, defaultLang } from "../i18n/translations";
+
+const langs = Object.keys(languages) as [keyof typeof languages, ...(keyof typeof languages)[]];
 
 const blog = defineCollection({
   type: "content",
@@ -6,10 +9,58 @@ const blog = defineCollection({
     title: z.string(),
     description: z.string().optional(),
     date: z.coerce.date(),
+    updated: z.coerce.date().optional(),
     tags: z.array(z.string()).optional().default([]),
     image: z.string().optional(),
     draft: z.boolean().optional().default(false),
+    // Posts sharing a series name get previous/next navigation, ordered by `order`
+    series: z
+      .object({
+        name: z.string(),
+        order: z.number().int().positive(),
+      })
+      .optional(),
+    // Set when the post was first published elsewhere
+    canonical: z.string().url().optional(),
+    // Translations live in `blog/<lang>/` and share a translationKey with their original
+    lang: z.enum(langs).optional().default(defaultLang),
+    translationKey: z.string().optional(),
   }),
 });
 
-export const collections = { blog };
+const projects = defineCollection({
+  type: "content",
+  schema: z
+    .object({
+      title: z.string(),
+      description: z.string(),
+      tags: z.array(z.string()).optional().default([]),
+      // Shared by every language version; translations only set them to override
+      status: z.enum(["active", "maintained", "experimental", "archived"]).optional(),
+      tech: z.array(z.string()).optional(),
+      icon: z.enum(["clock", "database", "currency", "globe"]).optional(),
+      color: z.enum(["primary", "accent", "green", "orange"]).optional(),
+      // Position on the projects page, lowest first
+      order: z.number().int().optional(),
+      // `owner/name`, enriched at build time from the GitHub metadata cache
+      github: z
+        .string()
+        .regex(/^[\w.-]+\/[\w.-]+$/)
+        .optional(),
+      links: z
+        .object({
+          repo: z.string().url().optional(),
+          demo: z.string().url().optional(),
+          website: z.string().url().optional(),
+        })
+        .optional(),
+      // Translations live in `projects/<lang>/` and share a translationKey with their original
+      lang: z.enum(langs).optional().default(defaultLang),
+      translationKey: z.string().optional(),
+    })
+    .refine((project) => project.lang !== defaultLang || (project.icon && project.color), {
+      message: `Projects in ${defaultLang} need an icon and color`,
+    }),
+});
+
+export const collections = { blog, projects };
@@ -0,0 +1,376 @@
+import type { Lang } from '../utils/posts';
+
+// Text that differs per language. Typed as a full record, so no language can be left out.
+type Localized<T> = Record<Lang, T>;
+
+export interface Job {
+  company: string;
+  role: string;
+  // `YYYY-MM`; a job without an end is the current one
+  start: string;
+  end?: string;
+  location: Localized<string>;
+  description: Localized<string>;
+  highlights: Localized<string[]>;
+}
+
+export interface Degree {
+  degree: Localized<string>;
+  school: string;
+  years: string;
+  location: Localized<string>;
+  thesis?: string;
+  note: Localized<string>;
+}
+
+export interface UniversityProject {
+  name: string;
+  start: string;
+  end: string;
+  association: string;
+  description: Localized<string>;
+  technologies: string[];
+}
+
+export const experience: Job[] = [
+  {
+    company: 'Digital Automotive',
+    role: 'Head of Backend Software Engineering',
+    start: '2024-04',
+    location: {
+      en: 'Cologne Bonn Region, Germany · Remote',
+      de: 'Region Köln/Bonn, Deutschland · Remote',
+      hi: 'कोलोन बॉन क्षेत्र, जर्मनी · रिमोट',
+    },
+    description: {
+      en: "Leading a team of ~15 engineers across backend development and operations, driving Digital Automotive's transformation from legacy monolith to a modern, multi-tenant SaaS platform.",
+      de: 'Leitung eines Teams von ~15 Ingenieuren in Backend-Entwicklung und Operations, Steuerung der Transformation von Digital Automotive von einem Legacy-Monolithen zu einer modernen, mandantenfähigen SaaS-Plattform.',
+      hi: '~15 इंजीनियरों की टीम का नेतृत्व बैकएंड डेवलपमेंट और ऑपरेशंस में, Digital Automotive के लीगेसी मोनोलिथ से आधुनिक, मल्टी-टेनेंट SaaS प्लेटफॉर्म में ट्रांसफॉर्मेशन का नेतृत्व।',
+    },
+    highlights: {
+      en: [
+        'Platform Modernization: Architected and led migration from JavaEE modular monolith to ~15 microservices using domain-driven design. Applied strangler fig pattern for incremental migration. Migrated core modules to Quarkus and transitioned from VM-per-customer to shared Kubernetes infrastructure with namespace-per-tenant isolation.',
+        'Global & Secure Architecture: Designing geo-replicated infrastructure for global availability. Introduced HashiCorp Vault for secrets management with automated credential rotation. Driving compliance with GDPR, TISAX, and ISO 27001.',
+        'Operations Transformation: Replaced fragile, manually-triggered pipelines with GitOps practices using Pulumi and Helm. Implemented comprehensive observability with distributed tracing and metrics across all services.',
+        'Engineering Excellence: Embedded AI into developer workflows using Claude. Transformed code review processes with AI-driven analysis, Qodana, and SonarQube. Introduced ADRs for architectural decision-making. Documented platform architecture using arc42.',
+        'Team & Org Development: Scaled the team through direct hiring and introduced offshore hiring practices. Restructured organization using Team Topologies, transitioning from managing individual contributors to leading team leads.',
+      ],
+      de: [
+        'Plattform-Modernisierung: Architektur und Leitung der Migration von JavaEE-Monolith zu ~15 Microservices mit Domain-Driven Design. Anwendung des Strangler-Fig-Patterns für inkrementelle Migration. Migration von Kernmodulen zu Quarkus und Übergang von VM-pro-Kunde zu geteilter Kubernetes-Infrastruktur mit Namespace-pro-Mandant-Isolation.',
+        'Globale & sichere Architektur: Design geo-replizierter Infrastruktur für globale Verfügbarkeit. Einführung von HashiCorp Vault für Secrets-Management mit automatisierter Credential-Rotation. Einhaltung von GDPR, TISAX und ISO 27001.',
+        'Operations-Transformation: Ersetzung fragiler, manuell getriggerter Pipelines durch GitOps-Praktiken mit Pulumi und Helm. Implementierung umfassender Observability mit verteiltem Tracing und Metriken über alle Services.',
+        'Engineering Excellence: Integration von KI in Entwickler-Workflows mit Claude. Transformation von Code-Review-Prozessen mit KI-gesteuerter Analyse, Qodana und SonarQube. Einführung von ADRs für Architekturentscheidungen. Plattform-Dokumentation mit arc42.',
+        'Team- & Org-Entwicklung: Skalierung des Teams durch direkte Einstellungen und Einführung von Offshore-Hiring-Praktiken. Umstrukturierung der Organisation mit Team Topologies, Übergang von der Führung einzelner Mitarbeiter zur Führung von Teamleitern.',
+      ],
+      hi: [
+        'प्लेटफॉर्म आधुनिकीकरण: JavaEE मॉड्यूलर मोनोलिथ से ~15 माइक्रोसर्विसेज में माइग्रेशन का आर्किटेक्चर और नेतृत्व डोमेन-ड्रिवन डिज़ाइन के साथ। इंक्रीमेंटल माइग्रेशन के लिए स्ट्रैंगलर फिग पैटर्न। कोर मॉड्यूल्स का Quarkus में माइग्रेशन और VM-प्रति-ग्राहक से शेयर्ड Kubernetes इन्फ्रास्ट्रक्चर में ट्रांजिशन।',
+        'ग्लोबल और सुरक्षित आर्किटेक्चर: वैश्विक उपलब्धता के लिए जियो-रेप्लिकेटेड इन्फ्रास्ट्रक्चर डिज़ाइन। ऑटोमेटेड क्रेडेंशियल रोटेशन के साथ सीक्रेट्स मैनेजमेंट के लिए HashiCorp Vault। GDPR, TISAX, और ISO 27001 अनुपालन।',
+        'ऑपरेशंस ट्रांसफॉर्मेशन: फ्रैजाइल, मैन्युअली-ट्रिगर्ड पाइपलाइन्स को Pulumi और Helm के साथ GitOps प्रैक्टिसेज से बदलना। सभी सर्विसेज में डिस्ट्रिब्यूटेड ट्रेसिंग और मेट्रिक्स के साथ कॉम्प्रिहेंसिव observability।',
+        'इंजीनियरिंग एक्सीलेंस: Claude के साथ डेवलपर वर्कफ्लोज़ में AI। AI-ड्रिवन एनालिसिस, Qodana, और SonarQube के साथ कोड रिव्यू प्रोसेस ट्रांसफॉर्म। आर्किटेक्चर निर्णयों के लिए ADRs। arc42 से प्लेटफॉर्म डॉक्यूमेंटेशन।',
+        'टीम और Org डेवलपमेंट: डायरेक्ट हायरिंग और ऑफशोर हायरिंग प्रैक्टिसेज से टीम स्केलिंग। Team Topologies से संगठन पुनर्गठन, इंडिविजुअल कंट्रीब्यूटर्स से टीम लीड्स के नेतृत्व में ट्रांजिशन।',
+      ],
+    },
+  },
+  {
+    company: 'Capgemini',
+    role: 'Lead Software Engineer',
+    start: '2023-03',
+    end: '2024-03',
+    location: {
+      en: 'Cologne Bonn Region, Germany · Hybrid',
+      de: 'Region Köln/Bonn, Deutschland · Hybrid',
+      hi: 'कोलोन बॉन क्षेत्र, जर्मनी · हाइब्रिड',
+    },
+    description: {
+      en: 'Led software engineering initiatives for enterprise clients, focusing on backend development and continuous integration practices.',
+      de: 'Leitung von Software-Engineering-Initiativen für Enterprise-Kunden mit Fokus auf Backend-Entwicklung und Continuous-Integration-Praktiken.',
+      hi: 'एंटरप्राइज क्लाइंट्स के लिए सॉफ्टवेयर इंजीनियरिंग इनिशिएटिव्स का नेतृत्व, बैकएंड डेवलपमेंट और कंटीन्यूअस इंटीग्रेशन प्रैक्टिसेज पर फोकस।',
+    },
+    highlights: {
+      en: [
+        'Delivered enterprise software solutions for major clients',
+        'Established CI/CD best practices and development workflows',
+        'Mentored team members and conducted technical reviews',
+      ],
+      de: [
+        'Lieferung von Enterprise-Software-Lösungen für große Kunden',
+        'Etablierung von CI/CD-Best-Practices und Entwicklungs-Workflows',
+        'Mentoring von Teammitgliedern und technische Reviews',
+      ],
+      hi: [
+        'प्रमुख क्लाइंट्स के लिए एंटरप्राइज सॉफ्टवेयर सॉल्यूशंस डिलीवरी',
+        'CI/CD बेस्ट प्रैक्टिसेज और डेवलपमेंट वर्कफ्लोज़ की स्थापना',
+        'टीम मेंबर्स का मेंटरिंग और टेक्निकल रिव्यूज़',
+      ],
+    },
+  },
+  {
+    company: 'IT Manufactory GmbH',
+    role: 'Head of Backend Software Development',
+    start: '2021-06',
+    end: '2023-02',
+    location: {
+      en: 'Bonn, Germany · Remote',
+      de: 'Bonn, Deutschland · Remote',
+      hi: 'बॉन, जर्मनी · रिमोट',
+    },
+    description: {
+      en: 'Led the backend development team for the Digital Automotive platform, an enterprise solution serving the automotive industry.',
+      de: 'Leitung des Backend-Entwicklungsteams für die Digital Automotive Plattform, eine Enterprise-Lösung für die Automobilindustrie.',
+      hi: 'Digital Automotive प्लेटफॉर्म के लिए बैकएंड डेवलपमेंट टीम का नेतृत्व, ऑटोमोटिव इंडस्ट्री के लिए एंटरप्राइज सॉल्यूशन।',
+    },
+    highlights: {
+      en: [
+        'Led backend development team and technical architecture decisions',
+        'Architected and implemented OAuth 2.0 and OpenID Connect authentication system',
+        'Coordinated database migration from Oracle to PostgreSQL',
+        'Migrated application server from GlassFish to Payara',
+        'Established CI/CD pipelines with GitLab',
+      ],
+      de: [
+        'Leitung des Backend-Teams und technische Architekturentscheidungen',
+        'Architektur und Implementierung des OAuth 2.0 und OpenID Connect Authentifizierungssystems',
+        'Koordination der Datenbankmigration von Oracle zu PostgreSQL',
+        'Migration des Applikationsservers von GlassFish zu Payara',
+        'Etablierung von CI/CD-Pipelines mit GitLab',
+      ],
+      hi: [
+        'बैकएंड डेवलपमेंट टीम और टेक्निकल आर्किटेक्चर निर्णयों का नेतृत्व',
+        'OAuth 2.0 और OpenID Connect ऑथेंटिकेशन सिस्टम का आर्किटेक्चर और इम्प्लीमेंटेशन',
+        'Oracle से PostgreSQL में डेटाबेस माइग्रेशन का कोऑर्डिनेशन',
+        'GlassFish से Payara में एप्लिकेशन सर्वर माइग्रेशन',
+        'GitLab के साथ CI/CD पाइपलाइन्स की स्थापना',
+      ],
+    },
+  },
+  {
+    company: 'IT Manufactory GmbH',
+    role: 'Software Developer',
+    start: '2017-11',
+    end: '2021-06',
+    location: {
+      en: 'Passau, Bavaria, Germany',
+      de: 'Passau, Bayern, Deutschland',
+      hi: 'पासाउ, बवेरिया, जर्मनी',
+    },
+    description: {
+      en: 'Full-stack developer working on the Digital Automotive enterprise platform with Java backend and web frontend.',
+      de: 'Full-Stack-Entwickler für die Digital Automotive Enterprise-Plattform mit Java-Backend und Web-Frontend.',
+      hi: 'Java बैकएंड और वेब फ्रंटएंड के साथ Digital Automotive एंटरप्राइज प्लेटफॉर्म पर फुल-स्टैक डेवलपर।',
+    },
+    highlights: {
+      en: [
+        'Developed core modules for Strategy, Acquisition, Business and Claim Management',
+        'Built comprehensive reporting and analytics features',
+        'Implemented REST APIs and backend services with Java/Jakarta EE',
+        'Conducted code reviews and mentored junior developers',
+      ],
+      de: [
+        'Entwicklung von Kernmodulen für Strategie, Akquisition, Business und Claim Management',
+        'Aufbau umfassender Reporting- und Analyse-Features',
+        'Implementierung von REST-APIs und Backend-Services mit Java/Jakarta EE',
+        'Code-Reviews und Mentoring von Junior-Entwicklern',
+      ],
+      hi: [
+        'Strategy, Acquisition, Business और Claim Management के लिए कोर मॉड्यूल्स का डेवलपमेंट',
+        'कॉम्प्रिहेंसिव रिपोर्टिंग और एनालिटिक्स फीचर्स का निर्माण',
+        'Java/Jakarta EE के साथ REST APIs और बैकएंड सर्विसेज का इम्प्लीमेंटेशन',
+        'कोड रिव्यूज़ और जूनियर डेवलपर्स का मेंटरिंग',
+      ],
+    },
+  },
+  {
+    company: 'NetSet Software Pvt. Ltd',
+    role: 'Mobile Application Developer',
+    start: '2014-08',
+    end: '2015-08',
+    location: {
+      en: 'Chandigarh Area, India',
+      de: 'Chandigarh, Indien',
+      hi: 'चंडीगढ़ क्षेत्र, भारत',
+    },
+    description: {
+      en: 'iOS application developer building native mobile applications for various clients.',
+      de: 'iOS-Anwendungsentwickler für native Mobile-Applikationen verschiedener Kunden.',
+      hi: 'विभिन्न क्लाइंट्स के लिए नेटिव मोबाइल एप्लिकेशंस बनाने वाला iOS एप्लिकेशन डेवलपर।',
+    },
+    highlights: {
+      en: [
+        'Developed multiple iOS applications from concept to App Store deployment',
+        'Built enterprise applications with offline-first capabilities',
+        'Created social media and consumer applications',
+      ],
+      de: [
+        'Entwicklung mehrerer iOS-Anwendungen vom Konzept bis zur App-Store-Veröffentlichung',
+        'Erstellung von Enterprise-Anwendungen mit Offline-First-Funktionalität',
+        'Entwicklung von Social-Media- und Consumer-Anwendungen',
+      ],
+      hi: [
+        'कॉन्सेप्ट से App Store डिप्लॉयमेंट तक कई iOS एप्लिकेशंस का डेवलपमेंट',
+        'ऑफलाइन-फर्स्ट कैपेबिलिटीज के साथ एंटरप्राइज एप्लिकेशंस',
+        'सोशल मीडिया और कंज्यूमर एप्लिकेशंस का निर्माण',
+      ],
+    },
+  },
+  {
+    company: 'RF Silicon Pvt Ltd',
+    role: 'Trainee Engineer',
+    start: '2013-12',
+    end: '2014-06',
+    location: {
+      en: 'New Delhi, India',
+      de: 'Neu-Delhi, Indien',
+      hi: 'नई दिल्ली, भारत',
+    },
+    description: {
+      en: 'Internship focused on Bluetooth Low Energy (BLE) development for IoT devices.',
+      de: 'Praktikum mit Fokus auf Bluetooth Low Energy (BLE) Entwicklung für IoT-Geräte.',
+      hi: 'IoT डिवाइसेज के लिए Bluetooth Low Energy (BLE) डेवलपमेंट पर फोकस्ड इंटर्नशिप।',
+    },
+    highlights: {
+      en: [
+        'Bluetooth LE profile implementation for health devices',
+        'Algorithm formulation for Security Manager Layer',
+        'iOS application development for BLE device communication',
+      ],
+      de: [
+        'Bluetooth-LE-Profil-Implementierung für Gesundheitsgeräte',
+        'Algorithmus-Formulierung für Security Manager Layer',
+        'iOS-Anwendungsentwicklung für BLE-Gerätekommunikation',
+      ],
+      hi: [
+        'हेल्थ डिवाइसेज के लिए Bluetooth LE प्रोफाइल इम्प्लीमेंटेशन',
+        'Security Manager Layer के लिए एल्गोरिदम फॉर्मूलेशन',
+        'BLE डिवाइस कम्युनिकेशन के लिए iOS एप्लिकेशन डेवलपमेंट',
+      ],
+    },
+  },
+];
+
+export const education: Degree[] = [
+  {
+    degree: {
+      en: 'M.Sc. Informatik (Computer Science)',
+      de: 'M.Sc. Informatik',
+      hi: 'M.Sc. Informatik (कंप्यूटर साइंस)',
+    },
+    school: 'Universität Passau',
+    years: '2015 - 2017',
+    location: {
+      en: 'Passau, Germany',
+      de: 'Passau, Deutschland',
+      hi: 'पासाउ, जर्मनी',
+    },
+    thesis: 'Towards an Assembly Line for the Construction of Complex Machine Learning Algorithms',
+    note: {
+      en: 'Focus areas: Software Engineering, Machine Learning, Distributed Systems',
+      de: 'Schwerpunkte: Software Engineering, Machine Learning, Verteilte Systeme',
+      hi: 'फोकस क्षेत्र: सॉफ्टवेयर इंजीनियरिंग, मशीन लर्निंग, डिस्ट्रिब्यूटेड सिस्टम्स',
+    },
+  },
+  {
+    degree: {
+      en: 'B.Tech Computer Science & Engineering',
+      de: 'B.Tech Computer Science & Engineering',
+      hi: 'B.Tech Computer Science & Engineering',
+    },
+    school: 'Bhaddal Institutes',
+    years: '2010 - 2014',
+    location: {
+      en: 'Punjab, India',
+      de: 'Punjab, Indien',
+      hi: 'पंजाब, भारत',
+    },
+    note: {
+      en: 'Activities: Annual Cultural and Technical Fest Core Organizer, ISTE Member, Robotics Society',
+      de: 'Aktivitäten: Kernorganisator des jährlichen Kultur- und Technik-Fests, ISTE-Mitglied, Robotik-Gesellschaft',
+      hi: 'गतिविधियाँ: वार्षिक सांस्कृतिक और तकनीकी उत्सव कोर आयोजक, ISTE सदस्य, रोबोटिक्स सोसाइटी',
+    },
+  },
+];
+
+export const universityProjects: UniversityProject[] = [
+  {
+    name: 'Visualisation of BFT-SMaRt',
+    start: '2017-03',
+    end: '2017-05',
+    association: 'Universität Passau',
+    description: {
+      en: 'A visualization library for BFT-SmaRt distributed system that shows system diagram, system statistics, messages exchanges and total number of message exchanges between the servers and the client. Visualizations built in D3.js.',
+      de: 'Eine Visualisierungsbibliothek für das BFT-SmaRt verteilte System, die Systemdiagramme, Systemstatistiken, Nachrichtenaustausch und Gesamtzahl der Nachrichtenaustausche zwischen Servern und Client zeigt. Visualisierungen mit D3.js erstellt.',
+      hi: 'BFT-SmaRt डिस्ट्रिब्यूटेड सिस्टम के लिए विज़ुअलाइज़ेशन लाइब्रेरी जो सिस्टम डायग्राम, सिस्टम स्टैटिस्टिक्स, मैसेज एक्सचेंजेस और सर्वर्स और क्लाइंट के बीच कुल मैसेज एक्सचेंजेस दिखाती है। D3.js में विज़ुअलाइज़ेशंस।',
+    },
+    technologies: ['Apache Kafka', 'D3.js', 'Python', 'Node.js', 'Java'],
+  },
+  {
+    name: 'BETO: Better Together',
+    start: '2017-02',
+    end: '2017-04',
+    association: 'Universität Passau',
+    description: {
+      en: 'A community app where people can offer help and time in various categories—companionship, language instruction, cooking nights, or band formation. Organizations can host events like football tournaments or parties. Features integrated chat with automated translation.',
+      de: 'Eine Community-App, in der Menschen Hilfe und Zeit in verschiedenen Kategorien anbieten können – Gesellschaft, Sprachunterricht, Kochabende oder Bandgründung. Organisationen können Events wie Fußballturniere oder Partys veranstalten. Integrierter Chat mit automatischer Übersetzung.',
+      hi: 'एक कम्युनिटी ऐप जहाँ लोग विभिन्न श्रेणियों में मदद और समय दे सकते हैं—साथ, भाषा निर्देश, कुकिंग नाइट्स, या बैंड फॉर्मेशन। ऑटोमेटेड ट्रांसलेशन के साथ इंटीग्रेटेड चैट।',
+    },
+    technologies: ['Mobile Development', 'Real-time Chat', 'Translation API'],
+  },
+  {
+    name: 'CoRE Directories: Web Of Things',
+    start: '2016-10',
+    end: '2017-02',
+    association: 'Universität Passau',
+    description: {
+      en: 'Implemented CoRE Directory discovery method for Web of Things initiative using COAP protocol. IoT devices connecting to the network are automatically added to a directory with descriptions of their functions and services.',
+      de: 'Implementierung der CoRE Directory Discovery-Methode für die Web of Things Initiative mit COAP-Protokoll. IoT-Geräte werden bei Netzwerkverbindung automatisch mit Beschreibungen ihrer Funktionen und Services zum Verzeichnis hinzugefügt.',
+      hi: 'COAP प्रोटोकॉल का उपयोग करके Web of Things इनिशिएटिव के लिए CoRE Directory डिस्कवरी मेथड का इम्प्लीमेंटेशन। नेटवर्क से कनेक्ट होने वाले IoT डिवाइसेज स्वचालित रूप से डायरेक्टरी में जुड़ जाते हैं।',
+    },
+    technologies: ['COAP', 'Node.js', 'PostgreSQL', 'Intel Galileo', 'Java'],
+  },
+  {
+    name: 'FriendFinder',
+    start: '2015-10',
+    end: '2016-02',
+    association: 'Universität Passau',
+    description: {
+      en: 'An iOS application to find people with similar interests near you. Backed by a Machine Learning backend using NLP algorithms to match interests from Facebook profiles and user descriptions.',
+      de: 'Eine iOS-Anwendung zum Finden von Menschen mit ähnlichen Interessen in der Nähe. Unterstützt durch ein Machine-Learning-Backend mit NLP-Algorithmen zum Abgleich von Interessen aus Facebook-Profilen und Nutzerbeschreibungen.',
+      hi: 'आपके पास समान रुचियों वाले लोगों को खोजने के लिए iOS एप्लिकेशन। Facebook प्रोफाइल्स और यूजर डिस्क्रिप्शंस से इंटरेस्ट्स मैच करने के लिए NLP एल्गोरिदम का उपयोग करने वाला Machine Learning बैकएंड।',
+    },
+    technologies: ['Swift', 'Python', 'Apache Lucene', 'NLP', 'iOS'],
+  },
+];
+
+export const interests: Localized<string[]> = {
+  en: [
+    'Platform Modernization',
+    'Cloud-Native Architecture',
+    'Kubernetes',
+    'Team Topologies',
+    'Cycling',
+    'Badminton',
+    'Open Source',
+  ],
+  de: [
+    'Plattform-Modernisierung',
+    'Cloud-Native Architektur',
+    'Kubernetes',
+    'Team Topologies',
+    'Radfahren',
+    'Badminton',
+    'Open Source',
+  ],
+  hi: [
+    'प्लेटफॉर्म आधुनिकीकरण',
+    'Cloud-Native Architecture',
+    'Kubernetes',
+    'Team Topologies',
+    'साइकिलिंग',
+    'बैडमिंटन',
+    'Open Source',
+  ],
+};
+
+export const certifications = [
+  'Liquibase Certified Practitioner',
+  'Microsoft Certified: Azure Fundamentals',
+];
@@ -0,0 +1,52 @@
+/**
+ * Every tag a post may use. The build fails on tags outside this list, so that
+ * near-duplicates like `k8s` and `kubernetes` never split a topic in two.
+ */
+export const tagTaxonomy = [
+  // Languages and frameworks
+  'java',
+  'jakarta-ee',
+  'jax-rs',
+  'quarkus',
+  'payara',
+  'glassfish',
+  'rest-api',
+  'oauth',
+  // Data
+  'database',
+  'postgresql',
+  'oracle',
+  // Platform and operations
+  'kubernetes',
+  'docker',
+  'containers',
+  'helm',
+  'pulumi',
+  'gitops',
+  'gitlab',
+  'cicd',
+  'devops',
+  'monitoring',
+  'observability',
+  'logging',
+  'debugging',
+  'production',
+  // Architecture
+  'architecture',
+  'microservices',
+  'distributed-systems',
+  'multi-tenancy',
+  'saas',
+  'backend',
+  'enterprise',
+  'migration',
+  'performance',
+  'optimization',
+  'security',
+  'best-practices',
+  // People and teams
+  'engineering',
+  'leadership',
+  'organization',
+  'team-topologies',
+];
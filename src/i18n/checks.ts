@@ -0,0 +1,63 @@
+import { getMessageParams } from './format';
+
+type Catalog = Record<string, Record<string, string>>;
+
+export interface TranslationReport {
+  lang: string;
+  // Keys whose value is empty
+  untranslated: string[];
+  // Keys whose value is the same as in the default language
+  identical: string[];
+}
+
+function sameParams(a: Set<string>, b: Set<string>) {
+  return a.size === b.size && [...a].every((name) => b.has(name));
+}
+
+/**
+ * Keys missing from or unknown to a locale, and messages whose arguments differ
+ * from the default language. Any of these fails the build.
+ */
+export function findTranslationErrors(catalog: Catalog, defaultLang: string) {
+  const reference = catalog[defaultLang];
+  const errors: string[] = [];
+
+  for (const [lang, messages] of Object.entries(catalog)) {
+    for (const key of Object.keys(reference)) {
+      if (!(key in messages)) errors.push(`${lang}: missing "${key}"`);
+    }
+    for (const [key, message] of Object.entries(messages)) {
+      if (!(key in reference)) {
+        errors.push(`${lang}: unknown key "${key}"`);
+        continue;
+      }
+      try {
+        const expected = getMessageParams(reference[key]);
+        const actual = getMessageParams(message);
+        if (!sameParams(expected, actual)) {
+          errors.push(`${lang}: "${key}" uses {${[...actual].join(', ')}} but ${defaultLang} uses {${[...expected].join(', ')}}`);
+        }
+      } catch (error) {
+        errors.push(`${lang}: "${key}" ${(error as Error).message}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/** Strings per locale that still need a translator's attention. */
+export function getTranslationReport(catalog: Catalog, defaultLang: string): TranslationReport[] {
+  const reference = catalog[defaultLang];
+
+  return Object.entries(catalog)
+    .filter(([lang]) => lang !== defaultLang)
+    .map(([lang, messages]) => {
+      const keys = Object.keys(messages).filter((key) => key in reference);
+      return {
+        lang,
+        untranslated: keys.filter((key) => !messages[key].trim()),
+        identical: keys.filter((key) => messages[key].trim() && messages[key] === reference[key]),
+      };
+    });
+}
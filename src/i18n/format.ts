@@ -0,0 +1,132 @@
+/**
+ * A small subset of ICU MessageFormat: `{name}` arguments and
+ * `{count, plural, =0 {…} one {# item} other {# items}}`, where `#` is the
+ * formatted count. Plural categories come from `Intl.PluralRules`.
+ */
+
+export type MessageParams = Record<string, string | number>;
+
+/** A formatted message split around its arguments, so callers can style the values. */
+export type MessagePart = string | { param: string; value: string | number };
+
+type MessageNode =
+  | string
+  | { type: 'argument'; name: string }
+  | { type: 'plural'; name: string; options: Record<string, MessageNode[]> }
+  | { type: 'count' };
+
+function findClosingBrace(message: string, open: number) {
+  let depth = 0;
+  for (let i = open; i < message.length; i++) {
+    if (message[i] === '{') depth++;
+    if (message[i] === '}' && --depth === 0) return i;
+  }
+  throw new Error(`Unbalanced braces in message: ${message}`);
+}
+
+function parsePluralOptions(source: string, message: string) {
+  const options: Record<string, MessageNode[]> = {};
+  let rest = source.trim();
+  while (rest) {
+    const selector = rest.match(/^(=\d+|zero|one|two|few|many|other)\s*\{/);
+    if (!selector) throw new Error(`Invalid plural option "${rest}" in message: ${message}`);
+    const open = selector[0].length - 1;
+    const close = findClosingBrace(rest, open);
+    options[selector[1]] = parse(rest.slice(open + 1, close), true);
+    rest = rest.slice(close + 1).trim();
+  }
+  if (!options.other) throw new Error(`Plural without an "other" option in message: ${message}`);
+  return options;
+}
+
+function parse(message: string, inPlural = false): MessageNode[] {
+  const nodes: MessageNode[] = [];
+  let text = '';
+  const flush = () => {
+    if (text) nodes.push(text);
+    text = '';
+  };
+
+  for (let i = 0; i < message.length; i++) {
+    const char = message[i];
+    if (char === '#' && inPlural) {
+      flush();
+      nodes.push({ type: 'count' });
+    } else if (char === '{') {
+      flush();
+      const close = findClosingBrace(message, i);
+      const [name, type, ...options] = message.slice(i + 1, close).split(',');
+      if (type === undefined) {
+        nodes.push({ type: 'argument', name: name.trim() });
+      } else if (type.trim() === 'plural') {
+        nodes.push({ type: 'plural', name: name.trim(), options: parsePluralOptions(options.join(','), message) });
+      } else {
+        throw new Error(`Unsupported argument type "${type.trim()}" in message: ${message}`);
+      }
+      i = close;
+    } else {
+      text += char;
+    }
+  }
+  flush();
+  return nodes;
+}
+
+const parsed = new Map<string, MessageNode[]>();
+
+function getNodes(message: string) {
+  if (!parsed.has(message)) parsed.set(message, parse(message));
+  return parsed.get(message)!;
+}
+
+/** Names of every argument a message expects, including plural counts. */
+export function getMessageParams(message: string) {
+  const names = new Set<string>();
+  const visit = (nodes: MessageNode[]) => {
+    for (const node of nodes) {
+      if (typeof node === 'string' || node.type === 'count') continue;
+      names.add(node.name);
+      if (node.type === 'plural') Object.values(node.options).forEach(visit);
+    }
+  };
+  visit(getNodes(message));
+  return names;
+}
+
+export function formatMessageToParts(message: string, params: MessageParams, lang: string): MessagePart[] {
+  const parts: MessagePart[] = [];
+  const push = (part: MessagePart) => {
+    // Merge adjacent text so callers see as few parts as possible
+    if (typeof part === 'string' && typeof parts.at(-1) === 'string') parts[parts.length - 1] += part;
+    else parts.push(part);
+  };
+
+  const visit = (nodes: MessageNode[], count?: number) => {
+    for (const node of nodes) {
+      if (typeof node === 'string') {
+        push(node);
+      } else if (node.type === 'count') {
+        push(new Intl.NumberFormat(lang).format(count!));
+      } else if (!(node.name in params)) {
+        // Left visible rather than thrown, so a forgotten argument shows up on the page
+        push(`{${node.name}}`);
+      } else if (node.type === 'argument') {
+        const value = params[node.name];
+        push({ param: node.name, value: typeof value === 'number' ? new Intl.NumberFormat(lang).format(value) : value });
+      } else {
+        const value = Number(params[node.name]);
+        const option = node.options[`=${value}`] ?? node.options[new Intl.PluralRules(lang).select(value)] ?? node.options.other;
+        visit(option, value);
+      }
+    }
+  };
+
+  visit(getNodes(message));
+  return parts;
+}
+
+export function formatMessage(message: string, params: MessageParams, lang: string) {
+  return formatMessageToParts(message, params, lang)
+    .map((part) => (typeof part === 'string' ? part : String(part.value)))
+    .join('');
+}
@@ -1,3 +1,6 @@
+import { findTranslationErrors } from './checks';
+import { formatMessage, formatMessageToParts, type MessageParams } from './format';
+
 export const languages = {
   en: 'English',
   de: 'Deutsch',
@@ -6,316 +9,660 @@ export const languages = {
 
 export const defaultLang = 'en';
 
-export const translations = {
-  en: {
-    // Navigation
-    'nav.home': 'Home',
-    'nav.about': 'About',
-    'nav.blog': 'Blog',
-    'nav.projects': 'Projects',
-
-    // Hero section
-    'hero.greeting': "Hi, I'm",
-    'hero.name': 'Varij Kapil',
-    'hero.title': 'Head of Backend Engineering & Operations',
-    'hero.location': 'Bonn, Germany',
-    'hero.description': 'I transform legacy systems into scalable, multi-tenant SaaS platforms using Kubernetes and cloud-native architecture.',
-    'hero.cta.about': 'Learn more about me',
-    'hero.cta.blog': 'Read my blog',
-    'hero.social': 'Find me on',
-
-    // Skills section
-    'skills.title': 'Technical',
-    'skills.titleHighlight': 'Skills',
-    'skills.languages': 'Languages',
-    'skills.frameworks': 'Frameworks',
-    'skills.platform': 'Platform & Cloud',
-    'skills.tools': 'Tools',
-    'skills.legend.expert': 'Expert / Daily use',
-    'skills.legend.advanced': 'Advanced',
-    'skills.legend.intermediate': 'Familiar',
-
-    // Blog section
-    'blog.title': 'Latest from the',
-    'blog.titleHighlight': 'Blog',
-    'blog.viewAll': 'View all posts',
-
-    // CTA section
-    'cta.title': "Let's Connect",
-    'cta.description': "Feel free to reach out if you'd like to discuss technology, share ideas, or just say hello.",
-    'cta.contact': 'Get in touch',
-    'cta.github': 'View GitHub',
-
-    // Footer
-    'footer.rights': 'All rights reserved.',
-
-    // About page
-    'about.title': 'About',
-    'about.titleHighlight': 'Me',
-    'about.intro': "Hi, I'm",
-    'about.experience': 'with',
-    'about.yearsExp': '10+ years',
-    'about.expText': 'of experience in software development. Currently based in',
-    'about.location': 'Bonn, Germany',
-    'about.description1': 'I lead backend engineering and operations teams through complex platform transformations—turning legacy, single-tenant systems into scalable, globally distributed',
-    'about.multiTenant': 'multi-tenant SaaS architectures',
-    'about.description2': 'My focus areas include',
-    'about.cloudNative': 'cloud-native architecture',
-    'about.description3': ', multi-tenancy patterns,',
-    'about.kubernetes': 'Kubernetes',
-    'about.description4': ', platform operations, and guiding teams through both the technical and organizational shifts that SaaSification demands.',
-    'about.yearsExperience': 'Years Experience',
-    'about.engineersLed': 'Engineers Led',
-    'about.countriesWorked': 'Countries Worked',
-    'about.whatIDo': 'What I',
-    'about.do': 'Do',
-    'about.platformMod': 'Platform Modernization',
-    'about.platformModDesc': 'Transforming legacy monoliths into microservices using domain-driven design, strangler fig pattern, and modern frameworks like Quarkus.',
-    'about.k8sCloud': 'Kubernetes & Cloud-Native',
-    'about.k8sCloudDesc': 'Building multi-tenant SaaS on Kubernetes with namespace-per-tenant isolation, geo-replicated infrastructure for global availability.',
-    'about.security': 'Security & Compliance',
-    'about.securityDesc': 'HashiCorp Vault for secrets management, automated credential rotation. Driving compliance with GDPR, TISAX, and ISO 27001.',
-    'about.gitops': 'GitOps & Observability',
-    'about.gitopsDesc': 'GitOps practices with Pulumi and Helm. Comprehensive observability with distributed tracing and metrics across all services.',
-    'about.engineering': 'Engineering Excellence',
-    'about.engineeringDesc': 'AI-driven code reviews with Claude and Qodana. ADRs for architectural decisions. Platform documentation using arc42.',
-    'about.teamDev': 'Team & Org Development',
-    'about.teamDevDesc': 'Restructuring organizations using Team Topologies. Scaling teams through direct and offshore hiring. Leading team leads.',
-    'about.techSkills': 'Technical',
-    'about.skills': 'Skills',
-    'about.languages': 'Languages',
-    'about.frameworks': 'Frameworks',
-    'about.platformCloud': 'Platform & Cloud',
-    'about.toolsDevops': 'Tools & DevOps',
-    'about.expert': 'Expert / Daily use',
-    'about.proficient': 'Proficient',
-    'about.workExp': 'Work',
-    'about.experience2': 'Experience',
-    'about.education': 'Education',
-    'about.certifications': 'Certifications',
-    'about.uniProjects': 'University',
-    'about.projects': 'Projects',
-    'about.beyondCode': 'Beyond',
-    'about.code': 'Code',
-    'about.letsConnect': "Let's Connect",
-    'about.connectText': 'Feel free to connect with me on LinkedIn or check out my projects on GitHub. I enjoy discussing technology and sharing knowledge with the community.',
-    'about.getInTouch': 'Get in Touch',
-
-    // Projects page
-    'projects.title': 'Personal',
-    'projects.titleHighlight': 'Projects',
-    'projects.description': "A collection of side projects and experiments I've built over the years to solve problems or learn new technologies.",
-    'projects.wantMore': 'Want to see more?',
-    'projects.ctaText': 'Check out my GitHub profile for more projects, contributions, and code samples.',
-    'projects.viewGithub': 'View GitHub Profile',
-  },
-  de: {
-    // Navigation
-    'nav.home': 'Startseite',
-    'nav.about': 'Über mich',
-    'nav.blog': 'Blog',
-    'nav.projects': 'Projekte',
-
-    // Hero section
-    'hero.greeting': 'Hallo, ich bin',
-    'hero.name': 'Varij Kapil',
-    'hero.title': 'Head of Backend Engineering & Operations',
-    'hero.location': 'Bonn, Deutschland',
-    'hero.description': 'Ich transformiere Legacy-Systeme in skalierbare, mandantenfähige SaaS-Plattformen mit Kubernetes und Cloud-nativer Architektur.',
-    'hero.cta.about': 'Mehr über mich',
-    'hero.cta.blog': 'Zum Blog',
-    'hero.social': 'Finde mich auf',
-
-    // Skills section
-    'skills.title': 'Technische',
-    'skills.titleHighlight': 'Fähigkeiten',
-    'skills.languages': 'Sprachen',
-    'skills.frameworks': 'Frameworks',
-    'skills.platform': 'Plattform & Cloud',
-    'skills.tools': 'Tools',
-    'skills.legend.expert': 'Experte / Tägliche Nutzung',
-    'skills.legend.advanced': 'Fortgeschritten',
-    'skills.legend.intermediate': 'Vertraut',
-
-    // Blog section
-    'blog.title': 'Neueste',
-    'blog.titleHighlight': 'Blogbeiträge',
-    'blog.viewAll': 'Alle Beiträge',
-
-    // CTA section
-    'cta.title': 'Kontakt aufnehmen',
-    'cta.description': 'Schreib mir gerne, wenn du über Technologie diskutieren, Ideen austauschen oder einfach Hallo sagen möchtest.',
-    'cta.contact': 'Kontakt',
-    'cta.github': 'GitHub ansehen',
-
-    // Footer
-    'footer.rights': 'Alle Rechte vorbehalten.',
-
-    // About page
-    'about.title': 'Über',
-    'about.titleHighlight': 'Mich',
-    'about.intro': 'Hallo, ich bin',
-    'about.experience': 'mit',
-    'about.yearsExp': '10+ Jahren',
-    'about.expText': 'Erfahrung in der Softwareentwicklung. Derzeit wohnhaft in',
-    'about.location': 'Bonn, Deutschland',
-    'about.description1': 'Ich leite Backend-Engineering- und Operations-Teams durch komplexe Plattformtransformationen – von veralteten Single-Tenant-Systemen zu skalierbaren, global verteilten',
-    'about.multiTenant': 'mandantenfähigen SaaS-Architekturen',
-    'about.description2': 'Meine Schwerpunkte sind',
-    'about.cloudNative': 'Cloud-native Architektur',
-    'about.description3': ', Multi-Tenancy-Muster,',
-    'about.kubernetes': 'Kubernetes',
-    'about.description4': ', Plattform-Operations und die Begleitung von Teams durch technische und organisatorische Veränderungen, die eine SaaS-Transformation erfordert.',
-    'about.yearsExperience': 'Jahre Erfahrung',
-    'about.engineersLed': 'Ingenieure geleitet',
-    'about.countriesWorked': 'Länder gearbeitet',
-    'about.whatIDo': 'Was ich',
-    'about.do': 'mache',
-    'about.platformMod': 'Plattform-Modernisierung',
-    'about.platformModDesc': 'Transformation von Legacy-Monolithen zu Microservices mit Domain-Driven Design, Strangler-Fig-Pattern und modernen Frameworks wie Quarkus.',
-    'about.k8sCloud': 'Kubernetes & Cloud-Native',
-    'about.k8sCloudDesc': 'Aufbau von mandantenfähigen SaaS-Plattformen auf Kubernetes mit Namespace-per-Tenant-Isolation und geo-replizierter Infrastruktur.',
-    'about.security': 'Sicherheit & Compliance',
-    'about.securityDesc': 'HashiCorp Vault für Secrets-Management, automatisierte Credential-Rotation. Einhaltung von GDPR, TISAX und ISO 27001.',
-    'about.gitops': 'GitOps & Observability',
-    'about.gitopsDesc': 'GitOps-Praktiken mit Pulumi und Helm. Umfassende Observability mit verteiltem Tracing und Metriken über alle Services.',
-    'about.engineering': 'Engineering Excellence',
-    'about.engineeringDesc': 'KI-gestützte Code-Reviews mit Claude und Qodana. ADRs für Architekturentscheidungen. Plattform-Dokumentation mit arc42.',
-    'about.teamDev': 'Team- & Org-Entwicklung',
-    'about.teamDevDesc': 'Organisationsrestrukturierung mit Team Topologies. Teamskalierung durch direkte und Offshore-Einstellungen. Führung von Teamleitern.',
-    'about.techSkills': 'Technische',
-    'about.skills': 'Fähigkeiten',
-    'about.languages': 'Sprachen',
-    'about.frameworks': 'Frameworks',
-    'about.platformCloud': 'Plattform & Cloud',
-    'about.toolsDevops': 'Tools & DevOps',
-    'about.expert': 'Experte / Tägliche Nutzung',
-    'about.proficient': 'Fortgeschritten',
-    'about.workExp': 'Berufs',
-    'about.experience2': 'erfahrung',
-    'about.education': 'Ausbildung',
-    'about.certifications': 'Zertifizierungen',
-    'about.uniProjects': 'Universitäts',
-    'about.projects': 'projekte',
-    'about.beyondCode': 'Über den',
-    'about.code': 'Code hinaus',
-    'about.letsConnect': 'Kontakt aufnehmen',
-    'about.connectText': 'Verbinde dich gerne mit mir auf LinkedIn oder schau dir meine Projekte auf GitHub an. Ich freue mich über Diskussionen über Technologie und Wissensaustausch.',
-    'about.getInTouch': 'Kontakt',
-
-    // Projects page
-    'projects.title': 'Persönliche',
-    'projects.titleHighlight': 'Projekte',
-    'projects.description': 'Eine Sammlung von Nebenprojekten und Experimenten, die ich im Laufe der Jahre gebaut habe, um Probleme zu lösen oder neue Technologien zu lernen.',
-    'projects.wantMore': 'Mehr sehen?',
-    'projects.ctaText': 'Schau dir mein GitHub-Profil für weitere Projekte, Beiträge und Code-Beispiele an.',
-    'projects.viewGithub': 'GitHub-Profil ansehen',
-  },
-  hi: {
-    // Navigation
-    'nav.home': 'होम',
-    'nav.about': 'मेरे बारे में',
-    'nav.blog': 'ब्लॉग',
-    'nav.projects': 'प्रोजेक्ट्स',
-
-    // Hero section
-    'hero.greeting': 'नमस्ते, मैं हूँ',
-    'hero.name': 'वारिज कपिल',
-    'hero.title': 'Head of Backend Engineering & Operations',
-    'hero.location': 'बॉन, जर्मनी',
-    'hero.description': 'मैं Kubernetes और क्लाउड-नेटिव आर्किटेक्चर का उपयोग करके लीगेसी सिस्टम को स्केलेबल, मल्टी-टेनेंट SaaS प्लेटफॉर्म में बदलता हूँ।',
-    'hero.cta.about': 'मेरे बारे में जानें',
-    'hero.cta.blog': 'ब्लॉग पढ़ें',
-    'hero.social': 'मुझे यहाँ खोजें',
-
-    // Skills section
-    'skills.title': 'तकनीकी',
-    'skills.titleHighlight': 'कौशल',
-    'skills.languages': 'भाषाएं',
-    'skills.frameworks': 'फ्रेमवर्क',
-    'skills.platform': 'प्लेटफॉर्म और क्लाउड',
-    'skills.tools': 'टूल्स',
-    'skills.legend.expert': 'विशेषज्ञ / दैनिक उपयोग',
-    'skills.legend.advanced': 'उन्नत',
-    'skills.legend.intermediate': 'परिचित',
-
-    // Blog section
-    'blog.title': 'नवीनतम',
-    'blog.titleHighlight': 'ब्लॉग पोस्ट',
-    'blog.viewAll': 'सभी पोस्ट देखें',
-
-    // CTA section
-    'cta.title': 'संपर्क करें',
-    'cta.description': 'अगर आप तकनीक पर चर्चा करना चाहते हैं, विचार साझा करना चाहते हैं, या बस नमस्ते कहना चाहते हैं, तो बेझिझक संपर्क करें।',
-    'cta.contact': 'संपर्क करें',
-    'cta.github': 'GitHub देखें',
-
-    // Footer
-    'footer.rights': 'सर्वाधिकार सुरक्षित।',
-
-    // About page
-    'about.title': 'मेरे',
-    'about.titleHighlight': 'बारे में',
-    'about.intro': 'नमस्ते, मैं हूँ',
-    'about.experience': 'के साथ',
-    'about.yearsExp': '10+ वर्षों',
-    'about.expText': 'का सॉफ्टवेयर डेवलपमेंट का अनुभव। वर्तमान में',
-    'about.location': 'बॉन, जर्मनी',
-    'about.description1': 'मैं बैकएंड इंजीनियरिंग और ऑपरेशंस टीमों का नेतृत्व करता हूँ जटिल प्लेटफॉर्म ट्रांसफॉर्मेशन के माध्यम से—लीगेसी, सिंगल-टेनेंट सिस्टम को स्केलेबल, वैश्विक रूप से वितरित',
-    'about.multiTenant': 'मल्टी-टेनेंट SaaS आर्किटेक्चर',
-    'about.description2': 'मेरे फोकस क्षेत्रों में शामिल हैं',
-    'about.cloudNative': 'क्लाउड-नेटिव आर्किटेक्चर',
-    'about.description3': ', मल्टी-टेनेंसी पैटर्न,',
-    'about.kubernetes': 'Kubernetes',
-    'about.description4': ', प्लेटफॉर्म ऑपरेशंस, और टीमों को SaaSification के लिए आवश्यक तकनीकी और संगठनात्मक बदलावों के माध्यम से मार्गदर्शन।',
-    'about.yearsExperience': 'वर्षों का अनुभव',
-    'about.engineersLed': 'इंजीनियरों का नेतृत्व',
-    'about.countriesWorked': 'देशों में काम किया',
-    'about.whatIDo': 'मैं क्या',
-    'about.do': 'करता हूँ',
-    'about.platformMod': 'प्लेटफॉर्म आधुनिकीकरण',
-    'about.platformModDesc': 'डोमेन-ड्रिवन डिज़ाइन, स्ट्रैंगलर फिग पैटर्न, और Quarkus जैसे आधुनिक फ्रेमवर्क का उपयोग करके लीगेसी मोनोलिथ को माइक्रोसर्विसेज में बदलना।',
-    'about.k8sCloud': 'Kubernetes और क्लाउड-नेटिव',
-    'about.k8sCloudDesc': 'नेमस्पेस-प्रति-टेनेंट आइसोलेशन, वैश्विक उपलब्धता के लिए जियो-रेप्लिकेटेड इन्फ्रास्ट्रक्चर के साथ Kubernetes पर मल्टी-टेनेंट SaaS बनाना।',
-    'about.security': 'सुरक्षा और अनुपालन',
-    'about.securityDesc': 'सीक्रेट्स मैनेजमेंट के लिए HashiCorp Vault, स्वचालित क्रेडेंशियल रोटेशन। GDPR, TISAX, और ISO 27001 अनुपालन।',
-    'about.gitops': 'GitOps और Observability',
-    'about.gitopsDesc': 'Pulumi और Helm के साथ GitOps प्रैक्टिस। सभी सर्विसेज में डिस्ट्रिब्यूटेड ट्रेसिंग और मेट्रिक्स के साथ व्यापक observability।',
-    'about.engineering': 'इंजीनियरिंग एक्सीलेंस',
-    'about.engineeringDesc': 'Claude और Qodana के साथ AI-ड्रिवन कोड रिव्यू। आर्किटेक्चर निर्णयों के लिए ADRs। arc42 का उपयोग करके प्लेटफॉर्म डॉक्यूमेंटेशन।',
-    'about.teamDev': 'टीम और संगठन विकास',
-    'about.teamDevDesc': 'Team Topologies का उपयोग करके संगठनों का पुनर्गठन। डायरेक्ट और ऑफशोर हायरिंग के माध्यम से टीमों का स्केलिंग। टीम लीड्स का नेतृत्व।',
-    'about.techSkills': 'तकनीकी',
-    'about.skills': 'कौशल',
-    'about.languages': 'भाषाएं',
-    'about.frameworks': 'फ्रेमवर्क',
-    'about.platformCloud': 'प्लेटफॉर्म और क्लाउड',
-    'about.toolsDevops': 'टूल्स और DevOps',
-    'about.expert': 'विशेषज्ञ / दैनिक उपयोग',
-    'about.proficient': 'कुशल',
-    'about.workExp': 'कार्य',
-    'about.experience2': 'अनुभव',
-    'about.education': 'शिक्षा',
-    'about.certifications': 'प्रमाणपत्र',
-    'about.uniProjects': 'विश्वविद्यालय',
-    'about.projects': 'प्रोजेक्ट्स',
-    'about.beyondCode': 'कोड से',
-    'about.code': 'परे',
-    'about.letsConnect': 'संपर्क करें',
-    'about.connectText': 'LinkedIn पर मुझसे जुड़ें या GitHub पर मेरे प्रोजेक्ट्स देखें। मुझे तकनीक पर चर्चा करना और समुदाय के साथ ज्ञान साझा करना पसंद है।',
-    'about.getInTouch': 'संपर्क करें',
-
-    // Projects page
-    'projects.title': 'व्यक्तिगत',
-    'projects.titleHighlight': 'प्रोजेक्ट्स',
-    'projects.description': 'वर्षों में समस्याओं को हल करने या नई तकनीकों को सीखने के लिए बनाए गए साइड प्रोजेक्ट्स और प्रयोगों का संग्रह।',
-    'projects.wantMore': 'और देखना चाहते हैं?',
-    'projects.ctaText': 'अधिक प्रोजेक्ट्स, योगदान, और कोड सैंपल्स के लिए मेरी GitHub प्रोफाइल देखें।',
-    'projects.viewGithub': 'GitHub प्रोफाइल देखें',
-  },
+// Languages other than the default, whose pages live under `/<lang>/` in the `[lang]` routes
+export const localizedLangs = (Object.keys(languages) as (keyof typeof languages)[]).filter((lang) => lang !== defaultLang);
+
+/** `getStaticPaths()` params for a `[lang]` page that exists once per localized language. */
+export function getLocalizedLangParams() {
+  return localizedLangs.map((lang) => ({ params: { lang } }));
+}
+
+// The locale each language formats dates, numbers and plurals in
+export const locales: Record<keyof typeof languages, string> = {
+  en: 'en-US',
+  de: 'de-DE',
+  hi: 'hi-IN',
+};
+
+const en = {
+  // Navigation
+  'nav.home': 'Home',
+  'nav.about': 'About',
+  'nav.blog': 'Blog',
+  'nav.projects': 'Projects',
+  'nav.search': 'Search',
+
+  // Page metadata
+  'home.metaTitle': 'Home',
+  'home.metaDescription': 'Varij Kapil - Head of Backend Engineering & Operations based in Bonn, Germany. Specializing in multi-tenant SaaS, Kubernetes, and platform modernization.',
+  'about.metaTitle': 'About',
+  'about.metaDescription': 'Learn more about Varij Kapil - Head of Backend Engineering & Operations based in Bonn, Germany. Specializing in multi-tenant SaaS, Kubernetes, and platform modernization.',
+  'projects.metaTitle': 'Projects',
+  'projects.metaDescription': 'Personal projects and side projects by Varij Kapil.',
+
+  // Hero section
+  'hero.greeting': "Hi, I'm",
+  'hero.name': 'Varij Kapil',
+  'hero.title': 'Head of Backend Engineering & Operations',
+  'hero.location': 'Bonn, Germany',
+  'hero.description': 'I transform legacy systems into scalable, multi-tenant SaaS platforms using Kubernetes and cloud-native architecture.',
+  'hero.basedIn': '{title} based in {location}.',
+  'hero.cta.about': 'Learn more about me',
+  'hero.cta.blog': 'Read my blog',
+  'hero.social': 'Find me on',
+
+  // Skills section
+  'skills.title': 'Technical',
+  'skills.titleHighlight': 'Skills',
+  'skills.description': 'Technologies and tools I work with to bring ideas to life',
+  'skills.languages': 'Languages',
+  'skills.frameworks': 'Frameworks',
+  'skills.platform': 'Platform & Cloud',
+  'skills.tools': 'Tools',
+  'skills.legend.expert': 'Expert / Daily use',
+  'skills.legend.advanced': 'Advanced',
+  'skills.legend.intermediate': 'Familiar',
+  'skills.level.expert': 'Expert',
+  'skills.level.advanced': 'Advanced',
+  'skills.level.intermediate': 'Intermediate',
+
+  // Blog section
+  'blog.title': 'Latest from the',
+  'blog.titleHighlight': 'Blog',
+  'blog.viewAll': 'View all posts',
+  'blog.description': "Thoughts, tutorials, and solutions to problems I've encountered",
+  'blog.readMore': 'Click to read more...',
+  'blog.comingSoon': 'Blog posts coming soon...',
+  'blog.suggested': 'Good places to start',
+
+  // CTA section
+  'cta.title': "Let's Connect",
+  'cta.description': "Feel free to reach out if you'd like to discuss technology, share ideas, or just say hello.",
+  'cta.contact': 'Get in touch',
+  'cta.github': 'View GitHub',
+
+  // Footer
+  'footer.rights': 'All rights reserved.',
+
+  // About page
+  'about.title': 'About',
+  'about.titleHighlight': 'Me',
+  'about.intro': "Hi, I'm {name} — {role} with {years} of experience in software development. Currently based in {location}.",
+  'about.yearsExp': '10+ years',
+  'about.location': 'Bonn, Germany',
+  'about.bio': 'I lead backend engineering and operations teams through complex platform transformations—turning legacy, single-tenant systems into scalable, globally distributed {multiTenant}.',
+  'about.focus': 'My focus areas include {cloudNative}, multi-tenancy patterns, {kubernetes}, platform operations, and guiding teams through both the technical and organizational shifts that SaaSification demands.',
+  'about.multiTenant': 'multi-tenant SaaS architectures',
+  'about.cloudNative': 'cloud-native architecture',
+  'about.kubernetes': 'Kubernetes',
+  'about.yearsExperience': 'Years Experience',
+  'about.engineersLed': 'Engineers Led',
+  'about.countriesWorked': 'Countries Worked',
+  'about.whatIDo': 'What I',
+  'about.do': 'Do',
+  'about.platformMod': 'Platform Modernization',
+  'about.platformModDesc': 'Transforming legacy monoliths into microservices using domain-driven design, strangler fig pattern, and modern frameworks like Quarkus.',
+  'about.k8sCloud': 'Kubernetes & Cloud-Native',
+  'about.k8sCloudDesc': 'Building multi-tenant SaaS on Kubernetes with namespace-per-tenant isolation, geo-replicated infrastructure for global availability.',
+  'about.security': 'Security & Compliance',
+  'about.securityDesc': 'HashiCorp Vault for secrets management, automated credential rotation. Driving compliance with GDPR, TISAX, and ISO 27001.',
+  'about.gitops': 'GitOps & Observability',
+  'about.gitopsDesc': 'GitOps practices with Pulumi and Helm. Comprehensive observability with distributed tracing and metrics across all services.',
+  'about.engineering': 'Engineering Excellence',
+  'about.engineeringDesc': 'AI-driven code reviews with Claude and Qodana. ADRs for architectural decisions. Platform documentation using arc42.',
+  'about.teamDev': 'Team & Org Development',
+  'about.teamDevDesc': 'Restructuring organizations using Team Topologies. Scaling teams through direct and offshore hiring. Leading team leads.',
+  'about.techSkills': 'Technical',
+  'about.skills': 'Skills',
+  'about.languages': 'Languages',
+  'about.frameworks': 'Frameworks',
+  'about.platformCloud': 'Platform & Cloud',
+  'about.toolsDevops': 'Tools & DevOps',
+  'about.expert': 'Expert / Daily use',
+  'about.proficient': 'Proficient',
+  'about.expertLevel': 'Expert',
+  'about.present': 'Present',
+  'about.thesis': 'Thesis',
+  'about.workExperience': 'Work {experience}',
+  'about.experience2': 'Experience',
+  'about.education': 'Education',
+  'about.certifications': 'Certifications',
+  'about.uniProjects': 'University',
+  'about.projects': 'Projects',
+  'about.beyondCode': 'Beyond',
+  'about.code': 'Code',
+  'about.letsConnect': "Let's Connect",
+  'about.connectText': 'Feel free to connect with me on LinkedIn or check out my projects on GitHub. I enjoy discussing technology and sharing knowledge with the community.',
+  'about.getInTouch': 'Get in Touch',
+
+  // Projects page
+  'projects.title': 'Personal',
+  'projects.titleHighlight': 'Projects',
+  'projects.description': "A collection of side projects and experiments I've built over the years to solve problems or learn new technologies.",
+  'projects.wantMore': 'Want to see more?',
+  'projects.ctaText': 'Check out my GitHub profile for more projects, contributions, and code samples.',
+  'projects.viewGithub': 'View GitHub Profile',
+  'projects.viewDetails': 'View details',
+  'projects.backToProjects': 'Back to projects',
+  'projects.fallbackNotice': 'This project has not been translated yet, so you are reading the original.',
+  'projects.status.active': 'Active',
+  'projects.status.maintained': 'Maintained',
+  'projects.status.experimental': 'Experimental',
+  'projects.status.archived': 'Archived',
+  'projects.techStack': 'Tech stack',
+  'projects.links': 'Links',
+  'projects.link.repo': 'Source code',
+  'projects.link.demo': 'Live demo',
+  'projects.link.website': 'Website',
+  'projects.stars': '{count, plural, one {# star} other {# stars}}',
+  'projects.forks': '{count, plural, one {# fork} other {# forks}}',
+  'projects.lastCommit': 'Last commit on {date}',
+  'projects.languages': 'Languages',
+
+  // Blog page
+  'blogPage.title': 'Blog',
+  'blogPage.metaDescription': 'Articles about software development, tutorials, and my thoughts on various topics.',
+  'blogPage.heading': 'My',
+  'blogPage.headingHighlight': 'Blog',
+  'blogPage.description': "Articles about programming, problem-solving, and things I've learned along the way.",
+  'blogPage.allPosts': 'All Posts',
+  'blogPage.readMore': 'Read more',
+  'blogPage.noPosts': 'No posts yet',
+  'blogPage.noPostsText': 'Blog posts are coming soon. Stay tuned!',
+  'blogPage.allTags': 'All tags',
+  'blogPage.tagged': 'Posts tagged',
+  'blogPage.postsFrom': 'Posts from',
+  'blogPage.archive': 'Archive',
+  'blogPage.archiveTitle': 'Archive {period}',
+  'blogPage.previous': 'Previous',
+  'blogPage.next': 'Next',
+  'blogPage.preview': 'Preview',
+  'blogPage.page': 'Page {page}',
+  'blogPage.pagination': 'Pagination',
+
+  // Tags page
+  'tags.metaTitle': 'Tags',
+  'tags.metaDescription': 'All topics covered on the blog, with the number of articles for each.',
+  'tags.title': 'Browse by',
+  'tags.titleHighlight': 'Topic',
+  'tags.description': "Every topic I've written about, with the number of articles on each.",
+  'tags.postCount': '{count, plural, one {# post} other {# posts}}',
+
+  // Search page
+  'search.metaTitle': 'Search',
+  'search.metaDescription': 'Search articles and pages on varij.dev.',
+  'search.title': 'Search the',
+  'search.titleHighlight': 'Site',
+  'search.description': 'Find articles and pages by keyword. Search runs entirely in your browser.',
+  'search.placeholder': 'Search…',
+  'search.label': 'Search query',
+  'search.tag': 'Tag',
+  'search.allTags': 'All tags',
+  'search.language': 'Language',
+  'search.allLanguages': 'All languages',
+  'search.article': 'Article',
+  'search.page': 'Page',
+  'search.loading': 'Loading search index…',
+  'search.noResults': 'No results found. Try different keywords or clear the filters.',
+  'search.prompt': 'Start typing to search.',
+  'search.error': 'The search index could not be loaded. Check your connection and try again.',
+
+  // Blog post
+  'post.backToBlog': 'Back to Blog',
+  'post.share': 'Share:',
+  'post.related': 'Related Articles',
+  'post.metaDescription': "Read {title} on Varij Kapil's blog.",
+  'post.alsoAvailable': 'Also available in',
+  'post.fallbackNotice': 'This article has not been translated yet, so you are reading the original version.',
+  'post.updated': 'Updated',
+  'post.minRead': '{minutes} min read',
+  'post.words': '{count, plural, one {# word} other {# words}}',
+  'post.toc': 'On this page',
+  'post.preview': 'Preview',
+  'post.previewDraft': 'This post is a draft and will not be published.',
+  'post.previewScheduled': 'This post is scheduled for {date} and will go live with the first build after that date.',
+  'code.copy': 'Copy code',
+  'code.copied': 'Copied',
+  'code.copyFailed': 'Copying failed; select the code to copy it',
+  'callout.note': 'Note',
+  'callout.tip': 'Tip',
+  'callout.warning': 'Warning',
+  'callout.danger': 'Danger',
+  'post.series': 'Series',
+  'post.previousInSeries': 'Previous in series',
+  'post.nextInSeries': 'Next in series',
 } as const;
 
-export type TranslationKey = keyof typeof translations.en;
+export type TranslationKey = keyof typeof en;
+
+// Annotated rather than inferred, so a missing or extra key is a type error
+type Messages = Record<TranslationKey, string>;
+
+const de: Messages = {
+  // Navigation
+  'nav.home': 'Startseite',
+  'nav.about': 'Über mich',
+  'nav.blog': 'Blog',
+  'nav.projects': 'Projekte',
+  'nav.search': 'Suche',
+
+  // Page metadata
+  'home.metaTitle': 'Startseite',
+  'home.metaDescription': 'Varij Kapil - Head of Backend Engineering & Operations in Bonn, Deutschland. Spezialisiert auf mandantenfähige SaaS-Plattformen, Kubernetes und Plattformmodernisierung.',
+  'about.metaTitle': 'Über mich',
+  'about.metaDescription': 'Erfahre mehr über Varij Kapil - Head of Backend Engineering & Operations in Bonn, Deutschland. Spezialisiert auf mandantenfähige SaaS-Plattformen, Kubernetes und Plattform-Modernisierung.',
+  'projects.metaTitle': 'Projekte',
+  'projects.metaDescription': 'Persönliche Projekte und Nebenprojekte von Varij Kapil.',
+
+  // Hero section
+  'hero.greeting': 'Hallo, ich bin',
+  'hero.name': 'Varij Kapil',
+  'hero.title': 'Head of Backend Engineering & Operations',
+  'hero.location': 'Bonn, Deutschland',
+  'hero.description': 'Ich transformiere Legacy-Systeme in skalierbare, mandantenfähige SaaS-Plattformen mit Kubernetes und Cloud-nativer Architektur.',
+  'hero.basedIn': '{title} in {location}.',
+  'hero.cta.about': 'Mehr über mich',
+  'hero.cta.blog': 'Zum Blog',
+  'hero.social': 'Finde mich auf',
+
+  // Skills section
+  'skills.title': 'Technische',
+  'skills.titleHighlight': 'Fähigkeiten',
+  'skills.description': 'Technologien und Tools, mit denen ich Ideen zum Leben erwecke',
+  'skills.languages': 'Sprachen',
+  'skills.frameworks': 'Frameworks',
+  'skills.platform': 'Plattform & Cloud',
+  'skills.tools': 'Tools',
+  'skills.legend.expert': 'Experte / Tägliche Nutzung',
+  'skills.legend.advanced': 'Fortgeschritten',
+  'skills.legend.intermediate': 'Vertraut',
+  'skills.level.expert': 'Experte',
+  'skills.level.advanced': 'Fortgeschritten',
+  'skills.level.intermediate': 'Grundkenntnisse',
+
+  // Blog section
+  'blog.title': 'Neueste',
+  'blog.titleHighlight': 'Blogbeiträge',
+  'blog.viewAll': 'Alle Beiträge',
+  'blog.description': 'Gedanken, Tutorials und Lösungen zu Problemen, auf die ich gestoßen bin',
+  'blog.readMore': 'Klick, um mehr zu lesen...',
+  'blog.comingSoon': 'Blogbeiträge kommen bald...',
+  'blog.suggested': 'Gute Einstiegspunkte',
+
+  // CTA section
+  'cta.title': 'Kontakt aufnehmen',
+  'cta.description': 'Schreib mir gerne, wenn du über Technologie diskutieren, Ideen austauschen oder einfach Hallo sagen möchtest.',
+  'cta.contact': 'Kontakt',
+  'cta.github': 'GitHub ansehen',
+
+  // Footer
+  'footer.rights': 'Alle Rechte vorbehalten.',
+
+  // About page
+  'about.title': 'Über',
+  'about.titleHighlight': 'Mich',
+  'about.intro': 'Hallo, ich bin {name} — {role} mit {years} Erfahrung in der Softwareentwicklung. Derzeit wohnhaft in {location}.',
+  'about.yearsExp': '10+ Jahren',
+  'about.location': 'Bonn, Deutschland',
+  'about.bio': 'Ich leite Backend-Engineering- und Operations-Teams durch komplexe Plattformtransformationen – von veralteten Single-Tenant-Systemen zu skalierbaren, global verteilten {multiTenant}.',
+  'about.focus': 'Meine Schwerpunkte sind {cloudNative}, Multi-Tenancy-Muster, {kubernetes}, Plattform-Operations und die Begleitung von Teams durch technische und organisatorische Veränderungen, die eine SaaS-Transformation erfordert.',
+  'about.multiTenant': 'mandantenfähigen SaaS-Architekturen',
+  'about.cloudNative': 'Cloud-native Architektur',
+  'about.kubernetes': 'Kubernetes',
+  'about.yearsExperience': 'Jahre Erfahrung',
+  'about.engineersLed': 'Ingenieure geleitet',
+  'about.countriesWorked': 'Länder gearbeitet',
+  'about.whatIDo': 'Was ich',
+  'about.do': 'mache',
+  'about.platformMod': 'Plattform-Modernisierung',
+  'about.platformModDesc': 'Transformation von Legacy-Monolithen zu Microservices mit Domain-Driven Design, Strangler-Fig-Pattern und modernen Frameworks wie Quarkus.',
+  'about.k8sCloud': 'Kubernetes & Cloud-Native',
+  'about.k8sCloudDesc': 'Aufbau von mandantenfähigen SaaS-Plattformen auf Kubernetes mit Namespace-per-Tenant-Isolation und geo-replizierter Infrastruktur.',
+  'about.security': 'Sicherheit & Compliance',
+  'about.securityDesc': 'HashiCorp Vault für Secrets-Management, automatisierte Credential-Rotation. Einhaltung von GDPR, TISAX und ISO 27001.',
+  'about.gitops': 'GitOps & Observability',
+  'about.gitopsDesc': 'GitOps-Praktiken mit Pulumi und Helm. Umfassende Observability mit verteiltem Tracing und Metriken über alle Services.',
+  'about.engineering': 'Engineering Excellence',
+  'about.engineeringDesc': 'KI-gestützte Code-Reviews mit Claude und Qodana. ADRs für Architekturentscheidungen. Plattform-Dokumentation mit arc42.',
+  'about.teamDev': 'Team- & Org-Entwicklung',
+  'about.teamDevDesc': 'Organisationsrestrukturierung mit Team Topologies. Teamskalierung durch direkte und Offshore-Einstellungen. Führung von Teamleitern.',
+  'about.techSkills': 'Technische',
+  'about.skills': 'Fähigkeiten',
+  'about.languages': 'Sprachen',
+  'about.frameworks': 'Frameworks',
+  'about.platformCloud': 'Plattform & Cloud',
+  'about.toolsDevops': 'Tools & DevOps',
+  'about.expert': 'Experte / Tägliche Nutzung',
+  'about.proficient': 'Fortgeschritten',
+  'about.expertLevel': 'Experte',
+  'about.present': 'Heute',
+  'about.thesis': 'Abschlussarbeit',
+  'about.workExperience': 'Berufs{experience}',
+  'about.experience2': 'erfahrung',
+  'about.education': 'Ausbildung',
+  'about.certifications': 'Zertifizierungen',
+  'about.uniProjects': 'Universitäts',
+  'about.projects': 'projekte',
+  'about.beyondCode': 'Über den',
+  'about.code': 'Code hinaus',
+  'about.letsConnect': 'Kontakt aufnehmen',
+  'about.connectText': 'Verbinde dich gerne mit mir auf LinkedIn oder schau dir meine Projekte auf GitHub an. Ich freue mich über Diskussionen über Technologie und Wissensaustausch.',
+  'about.getInTouch': 'Kontakt',
+
+  // Projects page
+  'projects.title': 'Persönliche',
+  'projects.titleHighlight': 'Projekte',
+  'projects.description': 'Eine Sammlung von Nebenprojekten und Experimenten, die ich im Laufe der Jahre gebaut habe, um Probleme zu lösen oder neue Technologien zu lernen.',
+  'projects.wantMore': 'Mehr sehen?',
+  'projects.ctaText': 'Schau dir mein GitHub-Profil für weitere Projekte, Beiträge und Code-Beispiele an.',
+  'projects.viewGithub': 'GitHub-Profil ansehen',
+  'projects.viewDetails': 'Details ansehen',
+  'projects.backToProjects': 'Zurück zu den Projekten',
+  'projects.fallbackNotice': 'Dieses Projekt wurde noch nicht übersetzt, daher siehst du das Original.',
+  'projects.status.active': 'Aktiv',
+  'projects.status.maintained': 'Gepflegt',
+  'projects.status.experimental': 'Experimentell',
+  'projects.status.archived': 'Archiviert',
+  'projects.techStack': 'Tech-Stack',
+  'projects.links': 'Links',
+  'projects.link.repo': 'Quellcode',
+  'projects.link.demo': 'Live-Demo',
+  'projects.link.website': 'Website',
+  'projects.stars': '{count, plural, one {# Stern} other {# Sterne}}',
+  'projects.forks': '{count, plural, one {# Fork} other {# Forks}}',
+  'projects.lastCommit': 'Letzter Commit am {date}',
+  'projects.languages': 'Sprachen',
+
+  // Blog page
+  'blogPage.title': 'Blog',
+  'blogPage.metaDescription': 'Artikel über Softwareentwicklung, Tutorials und meine Gedanken zu verschiedenen Themen.',
+  'blogPage.heading': 'Mein',
+  'blogPage.headingHighlight': 'Blog',
+  'blogPage.description': 'Artikel über Programmierung, Problemlösung und Dinge, die ich unterwegs gelernt habe.',
+  'blogPage.allPosts': 'Alle Beiträge',
+  'blogPage.readMore': 'Weiterlesen',
+  'blogPage.noPosts': 'Noch keine Beiträge',
+  'blogPage.noPostsText': 'Blogbeiträge kommen bald. Bleib dran!',
+  'blogPage.allTags': 'Alle Schlagwörter',
+  'blogPage.tagged': 'Beiträge zum Thema',
+  'blogPage.postsFrom': 'Beiträge aus',
+  'blogPage.archive': 'Archiv',
+  'blogPage.archiveTitle': 'Archiv {period}',
+  'blogPage.previous': 'Zurück',
+  'blogPage.next': 'Weiter',
+  'blogPage.preview': 'Vorschau',
+  'blogPage.page': 'Seite {page}',
+  'blogPage.pagination': 'Seitennavigation',
+
+  // Tags page
+  'tags.metaTitle': 'Schlagwörter',
+  'tags.metaDescription': 'Alle Themen des Blogs mit der Anzahl der Artikel zu jedem Thema.',
+  'tags.title': 'Stöbern nach',
+  'tags.titleHighlight': 'Thema',
+  'tags.description': 'Alle Themen, über die ich geschrieben habe, mit der Anzahl der Artikel zu jedem Thema.',
+  'tags.postCount': '{count, plural, one {# Beitrag} other {# Beiträge}}',
+
+  // Search page
+  'search.metaTitle': 'Suche',
+  'search.metaDescription': 'Artikel und Seiten auf varij.dev durchsuchen.',
+  'search.title': 'Die Seite',
+  'search.titleHighlight': 'durchsuchen',
+  'search.description': 'Finde Artikel und Seiten per Stichwort. Die Suche läuft vollständig in deinem Browser.',
+  'search.placeholder': 'Suchen…',
+  'search.label': 'Suchbegriff',
+  'search.tag': 'Schlagwort',
+  'search.allTags': 'Alle Schlagwörter',
+  'search.language': 'Sprache',
+  'search.allLanguages': 'Alle Sprachen',
+  'search.article': 'Artikel',
+  'search.page': 'Seite',
+  'search.loading': 'Suchindex wird geladen…',
+  'search.noResults': 'Keine Ergebnisse gefunden. Versuche andere Stichwörter oder setze die Filter zurück.',
+  'search.prompt': 'Tippe, um zu suchen.',
+  'search.error': 'Der Suchindex konnte nicht geladen werden. Prüfe deine Verbindung und versuche es erneut.',
+
+  // Blog post
+  'post.backToBlog': 'Zurück zum Blog',
+  'post.share': 'Teilen:',
+  'post.related': 'Verwandte Artikel',
+  'post.metaDescription': '{title} im Blog von Varij Kapil lesen.',
+  'post.alsoAvailable': 'Auch verfügbar auf',
+  'post.fallbackNotice': 'Dieser Artikel wurde noch nicht übersetzt, daher liest du die Originalfassung.',
+  'post.updated': 'Aktualisiert',
+  'post.minRead': '{minutes} Min. Lesezeit',
+  'post.words': '{count, plural, one {# Wort} other {# Wörter}}',
+  'post.toc': 'Auf dieser Seite',
+  'post.preview': 'Vorschau',
+  'post.previewDraft': 'Dieser Beitrag ist ein Entwurf und wird nicht veröffentlicht.',
+  'post.previewScheduled': 'Dieser Beitrag ist für den {date} geplant und erscheint mit dem ersten Build nach diesem Datum.',
+  'code.copy': 'Code kopieren',
+  'code.copied': 'Kopiert',
+  'code.copyFailed': 'Kopieren fehlgeschlagen; markiere den Code, um ihn zu kopieren',
+  'callout.note': 'Hinweis',
+  'callout.tip': 'Tipp',
+  'callout.warning': 'Achtung',
+  'callout.danger': 'Gefahr',
+  'post.series': 'Serie',
+  'post.previousInSeries': 'Vorheriger Teil',
+  'post.nextInSeries': 'Nächster Teil',
+};
+
+const hi: Messages = {
+  // Navigation
+  'nav.home': 'होम',
+  'nav.about': 'मेरे बारे में',
+  'nav.blog': 'ब्लॉग',
+  'nav.projects': 'प्रोजेक्ट्स',
+  'nav.search': 'खोज',
+
+  // Page metadata
+  'home.metaTitle': 'होम',
+  'home.metaDescription': 'वारिज कपिल - Head of Backend Engineering & Operations, बॉन, जर्मनी में स्थित। मल्टी-टेनेंट SaaS, Kubernetes, और प्लेटफॉर्म आधुनिकीकरण में विशेषज्ञता।',
+  'about.metaTitle': 'मेरे बारे में',
+  'about.metaDescription': 'वारिज कपिल के बारे में जानें - Head of Backend Engineering & Operations, बॉन, जर्मनी में स्थित। मल्टी-टेनेंट SaaS, Kubernetes, और प्लेटफॉर्म आधुनिकीकरण में विशेषज्ञता।',
+  'projects.metaTitle': 'प्रोजेक्ट्स',
+  'projects.metaDescription': 'वारिज कपिल के व्यक्तिगत प्रोजेक्ट्स और साइड प्रोजेक्ट्स।',
+
+  // Hero section
+  'hero.greeting': 'नमस्ते, मैं हूँ',
+  'hero.name': 'वारिज कपिल',
+  'hero.title': 'Head of Backend Engineering & Operations',
+  'hero.location': 'बॉन, जर्मनी',
+  'hero.description': 'मैं Kubernetes और क्लाउड-नेटिव आर्किटेक्चर का उपयोग करके लीगेसी सिस्टम को स्केलेबल, मल्टी-टेनेंट SaaS प्लेटफॉर्म में बदलता हूँ।',
+  'hero.basedIn': '{title}, {location} में स्थित।',
+  'hero.cta.about': 'मेरे बारे में जानें',
+  'hero.cta.blog': 'ब्लॉग पढ़ें',
+  'hero.social': 'मुझे यहाँ खोजें',
+
+  // Skills section
+  'skills.title': 'तकनीकी',
+  'skills.titleHighlight': 'कौशल',
+  'skills.description': 'तकनीकें और टूल्स जिनका उपयोग मैं विचारों को जीवन में लाने के लिए करता हूँ',
+  'skills.languages': 'भाषाएं',
+  'skills.frameworks': 'फ्रेमवर्क',
+  'skills.platform': 'प्लेटफॉर्म और क्लाउड',
+  'skills.tools': 'टूल्स',
+  'skills.legend.expert': 'विशेषज्ञ / दैनिक उपयोग',
+  'skills.legend.advanced': 'उन्नत',
+  'skills.legend.intermediate': 'परिचित',
+  'skills.level.expert': 'विशेषज्ञ',
+  'skills.level.advanced': 'उन्नत',
+  'skills.level.intermediate': 'परिचित',
+
+  // Blog section
+  'blog.title': 'नवीनतम',
+  'blog.titleHighlight': 'ब्लॉग पोस्ट',
+  'blog.viewAll': 'सभी पोस्ट देखें',
+  'blog.description': 'विचार, ट्यूटोरियल, और समस्याओं के समाधान जिनका मैंने सामना किया है',
+  'blog.readMore': 'और पढ़ने के लिए क्लिक करें...',
+  'blog.comingSoon': 'ब्लॉग पोस्ट जल्द आ रहे हैं...',
+  'blog.suggested': 'शुरुआत के लिए अच्छे लेख',
+
+  // CTA section
+  'cta.title': 'संपर्क करें',
+  'cta.description': 'अगर आप तकनीक पर चर्चा करना चाहते हैं, विचार साझा करना चाहते हैं, या बस नमस्ते कहना चाहते हैं, तो बेझिझक संपर्क करें।',
+  'cta.contact': 'संपर्क करें',
+  'cta.github': 'GitHub देखें',
+
+  // Footer
+  'footer.rights': 'सर्वाधिकार सुरक्षित।',
+
+  // About page
+  'about.title': 'मेरे',
+  'about.titleHighlight': 'बारे में',
+  'about.intro': 'नमस्ते, मैं {name} हूँ — {role}, सॉफ्टवेयर डेवलपमेंट में {years} के अनुभव के साथ। वर्तमान में {location} में रहता हूँ।',
+  'about.yearsExp': '10+ वर्षों',
+  'about.location': 'बॉन, जर्मनी',
+  'about.bio': 'मैं जटिल प्लेटफॉर्म ट्रांसफॉर्मेशन के माध्यम से बैकएंड इंजीनियरिंग और ऑपरेशंस टीमों का नेतृत्व करता हूँ—लीगेसी, सिंगल-टेनेंट सिस्टम को स्केलेबल, वैश्विक रूप से वितरित {multiTenant} में बदलना।',
+  'about.focus': 'मेरे फोकस क्षेत्रों में शामिल हैं {cloudNative}, मल्टी-टेनेंसी पैटर्न, {kubernetes}, प्लेटफॉर्म ऑपरेशंस, और टीमों को SaaSification के लिए आवश्यक तकनीकी और संगठनात्मक बदलावों के माध्यम से मार्गदर्शन।',
+  'about.multiTenant': 'मल्टी-टेनेंट SaaS आर्किटेक्चर',
+  'about.cloudNative': 'क्लाउड-नेटिव आर्किटेक्चर',
+  'about.kubernetes': 'Kubernetes',
+  'about.yearsExperience': 'वर्षों का अनुभव',
+  'about.engineersLed': 'इंजीनियरों का नेतृत्व',
+  'about.countriesWorked': 'देशों में काम किया',
+  'about.whatIDo': 'मैं क्या',
+  'about.do': 'करता हूँ',
+  'about.platformMod': 'प्लेटफॉर्म आधुनिकीकरण',
+  'about.platformModDesc': 'डोमेन-ड्रिवन डिज़ाइन, स्ट्रैंगलर फिग पैटर्न, और Quarkus जैसे आधुनिक फ्रेमवर्क का उपयोग करके लीगेसी मोनोलिथ को माइक्रोसर्विसेज में बदलना।',
+  'about.k8sCloud': 'Kubernetes और क्लाउड-नेटिव',
+  'about.k8sCloudDesc': 'नेमस्पेस-प्रति-टेनेंट आइसोलेशन, वैश्विक उपलब्धता के लिए जियो-रेप्लिकेटेड इन्फ्रास्ट्रक्चर के साथ Kubernetes पर मल्टी-टेनेंट SaaS बनाना।',
+  'about.security': 'सुरक्षा और अनुपालन',
+  'about.securityDesc': 'सीक्रेट्स मैनेजमेंट के लिए HashiCorp Vault, स्वचालित क्रेडेंशियल रोटेशन। GDPR, TISAX, और ISO 27001 अनुपालन।',
+  'about.gitops': 'GitOps और Observability',
+  'about.gitopsDesc': 'Pulumi और Helm के साथ GitOps प्रैक्टिस। सभी सर्विसेज में डिस्ट्रिब्यूटेड ट्रेसिंग और मेट्रिक्स के साथ व्यापक observability।',
+  'about.engineering': 'इंजीनियरिंग एक्सीलेंस',
+  'about.engineeringDesc': 'Claude और Qodana के साथ AI-ड्रिवन कोड रिव्यू। आर्किटेक्चर निर्णयों के लिए ADRs। arc42 का उपयोग करके प्लेटफॉर्म डॉक्यूमेंटेशन।',
+  'about.teamDev': 'टीम और संगठन विकास',
+  'about.teamDevDesc': 'Team Topologies का उपयोग करके संगठनों का पुनर्गठन। डायरेक्ट और ऑफशोर हायरिंग के माध्यम से टीमों का स्केलिंग। टीम लीड्स का नेतृत्व।',
+  'about.techSkills': 'तकनीकी',
+  'about.skills': 'कौशल',
+  'about.languages': 'भाषाएं',
+  'about.frameworks': 'फ्रेमवर्क',
+  'about.platformCloud': 'प्लेटफॉर्म और क्लाउड',
+  'about.toolsDevops': 'टूल्स और DevOps',
+  'about.expert': 'विशेषज्ञ / दैनिक उपयोग',
+  'about.proficient': 'कुशल',
+  'about.expertLevel': 'विशेषज्ञ',
+  'about.present': 'वर्तमान',
+  'about.thesis': 'थीसिस',
+  'about.workExperience': 'कार्य {experience}',
+  'about.experience2': 'अनुभव',
+  'about.education': 'शिक्षा',
+  'about.certifications': 'प्रमाणपत्र',
+  'about.uniProjects': 'विश्वविद्यालय',
+  'about.projects': 'प्रोजेक्ट्स',
+  'about.beyondCode': 'कोड से',
+  'about.code': 'परे',
+  'about.letsConnect': 'संपर्क करें',
+  'about.connectText': 'LinkedIn पर मुझसे जुड़ें या GitHub पर मेरे प्रोजेक्ट्स देखें। मुझे तकनीक पर चर्चा करना और समुदाय के साथ ज्ञान साझा करना पसंद है।',
+  'about.getInTouch': 'संपर्क करें',
+
+  // Projects page
+  'projects.title': 'व्यक्तिगत',
+  'projects.titleHighlight': 'प्रोजेक्ट्स',
+  'projects.description': 'वर्षों में समस्याओं को हल करने या नई तकनीकों को सीखने के लिए बनाए गए साइड प्रोजेक्ट्स और प्रयोगों का संग्रह।',
+  'projects.wantMore': 'और देखना चाहते हैं?',
+  'projects.ctaText': 'अधिक प्रोजेक्ट्स, योगदान, और कोड सैंपल्स के लिए मेरी GitHub प्रोफाइल देखें।',
+  'projects.viewGithub': 'GitHub प्रोफाइल देखें',
+  'projects.viewDetails': 'विवरण देखें',
+  'projects.backToProjects': 'प्रोजेक्ट्स पर वापस जाएं',
+  'projects.fallbackNotice': 'इस प्रोजेक्ट का अभी अनुवाद नहीं हुआ है, इसलिए आप मूल संस्करण देख रहे हैं।',
+  'projects.status.active': 'सक्रिय',
+  'projects.status.maintained': 'अनुरक्षित',
+  'projects.status.experimental': 'प्रायोगिक',
+  'projects.status.archived': 'संग्रहीत',
+  'projects.techStack': 'टेक स्टैक',
+  'projects.links': 'लिंक',
+  'projects.link.repo': 'सोर्स कोड',
+  'projects.link.demo': 'लाइव डेमो',
+  'projects.link.website': 'वेबसाइट',
+  'projects.stars': '{count} स्टार',
+  'projects.forks': '{count} फ़ोर्क',
+  'projects.lastCommit': 'अंतिम कमिट {date}',
+  'projects.languages': 'भाषाएँ',
+
+  // Blog page
+  'blogPage.title': 'ब्लॉग',
+  'blogPage.metaDescription': 'सॉफ्टवेयर डेवलपमेंट, ट्यूटोरियल और विभिन्न विषयों पर मेरे विचारों के बारे में लेख।',
+  'blogPage.heading': 'मेरा',
+  'blogPage.headingHighlight': 'ब्लॉग',
+  'blogPage.description': 'प्रोग्रामिंग, समस्या-समाधान और रास्ते में सीखी गई चीज़ों के बारे में लेख।',
+  'blogPage.allPosts': 'सभी पोस्ट',
+  'blogPage.readMore': 'और पढ़ें',
+  'blogPage.noPosts': 'अभी कोई पोस्ट नहीं',
+  'blogPage.noPostsText': 'ब्लॉग पोस्ट जल्द आ रहे हैं। जुड़े रहें!',
+  'blogPage.allTags': 'सभी टैग',
+  'blogPage.tagged': 'इस विषय पर पोस्ट',
+  'blogPage.postsFrom': 'इस अवधि के पोस्ट',
+  'blogPage.archive': 'संग्रह',
+  'blogPage.archiveTitle': '{period} का संग्रह',
+  'blogPage.previous': 'पिछला',
+  'blogPage.next': 'अगला',
+  'blogPage.preview': 'प्रीव्यू',
+  'blogPage.page': 'पृष्ठ {page}',
+  'blogPage.pagination': 'पृष्ठ नेविगेशन',
+
+  // Tags page
+  'tags.metaTitle': 'टैग',
+  'tags.metaDescription': 'ब्लॉग के सभी विषय, हर विषय पर लेखों की संख्या के साथ।',
+  'tags.title': 'विषय के अनुसार',
+  'tags.titleHighlight': 'ब्राउज़ करें',
+  'tags.description': 'वे सभी विषय जिन पर मैंने लिखा है, हर विषय पर लेखों की संख्या के साथ।',
+  'tags.postCount': '{count} पोस्ट',
+
+  // Search page
+  'search.metaTitle': 'खोज',
+  'search.metaDescription': 'varij.dev पर लेख और पेज खोजें।',
+  'search.title': 'साइट',
+  'search.titleHighlight': 'खोजें',
+  'search.description': 'कीवर्ड से लेख और पेज खोजें। खोज पूरी तरह आपके ब्राउज़र में चलती है।',
+  'search.placeholder': 'खोजें…',
+  'search.label': 'खोज शब्द',
+  'search.tag': 'टैग',
+  'search.allTags': 'सभी टैग',
+  'search.language': 'भाषा',
+  'search.allLanguages': 'सभी भाषाएं',
+  'search.article': 'लेख',
+  'search.page': 'पेज',
+  'search.loading': 'खोज इंडेक्स लोड हो रहा है…',
+  'search.noResults': 'कोई परिणाम नहीं मिला। अलग कीवर्ड आज़माएं या फ़िल्टर हटाएं।',
+  'search.prompt': 'खोजने के लिए टाइप करना शुरू करें।',
+  'search.error': 'सर्च इंडेक्स लोड नहीं हो सका। अपना कनेक्शन जाँचें और फिर से कोशिश करें।',
+
+  // Blog post
+  'post.backToBlog': 'ब्लॉग पर वापस जाएं',
+  'post.share': 'साझा करें:',
+  'post.related': 'संबंधित लेख',
+  'post.metaDescription': 'Varij Kapil के ब्लॉग पर {title} पढ़ें।',
+  'post.alsoAvailable': 'इन भाषाओं में भी उपलब्ध',
+  'post.fallbackNotice': 'इस लेख का अभी अनुवाद नहीं हुआ है, इसलिए आप मूल संस्करण पढ़ रहे हैं।',
+  'post.updated': 'अपडेट किया गया',
+  'post.minRead': '{minutes} मिनट में पढ़ें',
+  'post.words': '{count} शब्द',
+  'post.toc': 'इस पेज पर',
+  'post.preview': 'प्रीव्यू',
+  'post.previewDraft': 'यह पोस्ट एक ड्राफ़्ट है और प्रकाशित नहीं होगी।',
+  'post.previewScheduled': 'यह पोस्ट {date} के लिए शेड्यूल है और उस तारीख के बाद के पहले बिल्ड के साथ प्रकाशित होगी।',
+  'code.copy': 'कोड कॉपी करें',
+  'code.copied': 'कॉपी हो गया',
+  'code.copyFailed': 'कॉपी नहीं हो सका; कोड को चुनकर कॉपी करें',
+  'callout.note': 'नोट',
+  'callout.tip': 'सुझाव',
+  'callout.warning': 'चेतावनी',
+  'callout.danger': 'खतरा',
+  'post.series': 'सीरीज़',
+  'post.previousInSeries': 'सीरीज़ का पिछला भाग',
+  'post.nextInSeries': 'सीरीज़ का अगला भाग',
+};
+
+export const translations: Record<keyof typeof languages, Messages> = { en, de, hi };
+
+// `astro build` does not type-check, so the same rules are enforced when the catalog loads
+const translationErrors = findTranslationErrors(translations, defaultLang);
+if (translationErrors.length > 0) {
+  throw new Error(`Invalid translations:\n  ${translationErrors.join('\n  ')}`);
+}
 
 export function getLangFromUrl(url: URL) {
   const [, lang] = url.pathname.split('/');
@@ -323,10 +670,38 @@ export function getLangFromUrl(url: URL) {
   return defaultLang;
 }
 
+/**
+ * `t(key, params)` fills in `{name}` arguments and plural forms. `t.parts` returns
+ * the same message split around its arguments, for markup that styles the values.
+ */
 export function useTranslations(lang: keyof typeof translations) {
-  return function t(key: TranslationKey) {
-    return translations[lang][key] || translations[defaultLang][key];
-  };
+  const locale = locales[lang];
+  const t = (key: TranslationKey, params: MessageParams = {}) => formatMessage(translations[lang][key], params, locale);
+  const parts = (key: TranslationKey, params: MessageParams) => formatMessageToParts(translations[lang][key], params, locale);
+
+  return Object.assign(t, { parts });
+}
+
+const dateStyles = {
+  long: { year: 'numeric', month: 'long', day: 'numeric' },
+  short: { year: 'numeric', month: 'short', day: 'numeric' },
+  month: { year: 'numeric', month: 'long' },
+  shortMonth: { year: 'numeric', month: 'short' },
+  monthName: { month: 'short' },
+} satisfies Record<string, Intl.DateTimeFormatOptions>;
+
+export type DateStyle = keyof typeof dateStyles;
+
+/**
+ * A date in the language's locale. Content dates are calendar days rather than
+ * instants, so they are read in UTC whatever time zone the build runs in.
+ */
+export function formatDate(date: Date, lang: keyof typeof translations, style: DateStyle = 'long') {
+  return date.toLocaleDateString(locales[lang], { ...dateStyles[style], timeZone: 'UTC' });
+}
+
+export function formatNumber(value: number, lang: keyof typeof translations, options?: Intl.NumberFormatOptions) {
+  return value.toLocaleString(locales[lang], options);
 }
 
 export function getLocalizedPath(path: string, lang: string) {
@@ -335,3 +710,10 @@ export function getLocalizedPath(path: string, lang: string) {
   }
   return `/${lang}${path}`;
 }
+
+const langPrefix = new RegExp(`^/(${Object.keys(languages).join('|')})(?=/|$)`);
+
+/** The path a page has in the default language, e.g. `/blog` for `/de/blog`. */
+export function getUnlocalizedPath(pathname: string) {
+  return pathname.replace(langPrefix, '') || '/';
+}
@@ -0,0 +1,28 @@
+import type { AstroIntegration } from 'astro';
+import { getTranslationReport } from '../i18n/checks';
+import { defaultLang, translations } from '../i18n/translations';
+
+/**
+ * Lists, per locale, the strings that are empty or still read exactly like the
+ * default language. Informational only: missing keys already fail the build.
+ */
+export default function i18nReport(): AstroIntegration {
+  return {
+    name: 'i18n-report',
+    hooks: {
+      'astro:build:done': ({ logger }) => {
+        for (const { lang, untranslated, identical } of getTranslationReport(translations, defaultLang)) {
+          if (untranslated.length > 0) {
+            logger.warn(`${lang}: ${untranslated.length} untranslated: ${untranslated.join(', ')}`);
+          }
+          if (identical.length > 0) {
+            logger.info(`${lang}: ${identical.length} identical to ${defaultLang}: ${identical.join(', ')}`);
+          }
+          if (untranslated.length + identical.length === 0) {
+            logger.info(`${lang}: fully translated`);
+          }
+        }
+      },
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { appendFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import type { AstroIntegration } from 'astro';
+import { formatReport, validateContent, validateLinks } from '../utils/validation';
+
+/**
+ * Checks the content and the built site once everything is written, and fails
+ * the build if anything is broken. On GitHub Actions the report also goes to the
+ * job summary, so a blocked deploy says why.
+ */
+export default function siteValidation(): AstroIntegration {
+  let site: URL;
+
+  return {
+    name: 'site-validation',
+    hooks: {
+      'astro:config:done': ({ config }) => {
+        site = new URL(config.site!);
+      },
+      'astro:build:done': ({ dir, logger }) => {
+        const issues = [...validateContent(), ...validateLinks(fileURLToPath(dir), site)];
+        const report = formatReport(issues);
+
+        if (process.env.GITHUB_STEP_SUMMARY) {
+          const summary = issues.length
+            ? ['## Site validation failed', '', '```', ...report, '```']
+            : ['## Site validation passed'];
+          appendFileSync(process.env.GITHUB_STEP_SUMMARY, summary.join('\n') + '\n');
+        }
+
+        if (issues.length === 0) {
+          logger.info('no broken links, images or content found');
+          return;
+        }
+        for (const line of report) logger.error(line);
+        throw new Error(`Site validation found ${issues.length} problem${issues.length === 1 ? '' : 's'}, listed above`);
+      },
+    },
+  };
+}
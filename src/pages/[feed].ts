@@ -0,0 +1,13 @@
+import type { APIRoute } from 'astro';
+import { defaultLang } from '../i18n/translations';
+import { feedFormats, getFeed, renderFeed, type FeedFormat } from '../utils/feed';
+
+// Site-wide feeds: /rss.xml, /atom.xml and /feed.json
+export function getStaticPaths() {
+  return feedFormats.map((feed) => ({ params: { feed } }));
+}
+
+export const GET: APIRoute = async ({ params, site }) => {
+  const feed = await getFeed({ lang: defaultLang }, site!);
+  return renderFeed(params.feed as FeedFormat, feed, site!);
+};
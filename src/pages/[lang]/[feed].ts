@@ -0,0 +1,14 @@
+import type { APIRoute } from 'astro';
+import { localizedLangs } from '../../i18n/translations';
+import { feedFormats, getFeed, renderFeed, type FeedFormat } from '../../utils/feed';
+import type { Lang } from '../../utils/posts';
+
+// Per-locale feeds, e.g. /de/rss.xml
+export function getStaticPaths() {
+  return localizedLangs.flatMap((lang) => feedFormats.map((feed) => ({ params: { lang, feed } })));
+}
+
+export const GET: APIRoute = async ({ params, site }) => {
+  const feed = await getFeed({ lang: params.lang as Lang }, site!);
+  return renderFeed(params.feed as FeedFormat, feed, site!);
+};
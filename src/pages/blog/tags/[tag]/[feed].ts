@@ -0,0 +1,16 @@
+import type { APIRoute } from 'astro';
+import { defaultLang } from '../../../../i18n/translations';
+import { feedFormats, getFeed, renderFeed, type FeedFormat } from '../../../../utils/feed';
+import { getLocalizedPosts } from '../../../../utils/posts';
+
+// Per-tag feeds, e.g. /blog/tags/kubernetes/rss.xml
+export async function getStaticPaths() {
+  const posts = await getLocalizedPosts(defaultLang, { previews: false });
+  const tags = [...new Set(posts.flatMap(({ post }) => post.data.tags))];
+  return tags.flatMap((tag) => feedFormats.map((feed) => ({ params: { tag, feed } })));
+}
+
+export const GET: APIRoute = async ({ params, site }) => {
+  const feed = await getFeed({ lang: defaultLang, tag: params.tag }, site!);
+  return renderFeed(params.feed as FeedFormat, feed, site!);
+};
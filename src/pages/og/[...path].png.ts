@@ -0,0 +1,16 @@
+import type { APIRoute } from 'astro';
+import { getOgImagePath, getOgImages, renderOgImage, type OgImage } from '../../utils/og';
+
+export async function getStaticPaths() {
+  const images = await getOgImages();
+  return images.map((image) => ({
+    // `/og/de/blog/foo.png` → `de/blog/foo`
+    params: { path: getOgImagePath(image.path).slice('/og/'.length, -'.png'.length) },
+    props: { image },
+  }));
+}
+
+export const GET: APIRoute = async ({ props }) => {
+  const png = await renderOgImage((props as { image: OgImage }).image);
+  return new Response(new Uint8Array(png), { headers: { 'Content-Type': 'image/png' } });
+};
@@ -0,0 +1,8 @@
+import type { APIRoute } from 'astro';
+import { getSearchDocuments } from '../utils/search';
+
+export const GET: APIRoute = async () => {
+  return new Response(JSON.stringify(await getSearchDocuments()), {
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+  });
+};
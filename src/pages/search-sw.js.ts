@@ -0,0 +1,80 @@
+import type { APIRoute } from 'astro';
+
+/**
+ * Service worker that keeps search usable offline. Each search page registers
+ * it with its own path as the scope, so it only controls that page. On install
+ * it caches the index, the page and the assets the page references: scripts,
+ * stylesheets and the fonts those stylesheets load. Requests still go to the
+ * network first, so a deploy shows up right away.
+ */
+export const GET: APIRoute = () => {
+  // Distinguishes builds, so older caches are dropped once this worker takes over
+  const build = Date.now();
+
+  const worker = `
+const scope = new URL(self.registration.scope).pathname;
+const cacheName = 'search ' + scope + ' ${build}';
+const urls = ['/search-index.json', scope];
+// Pages are requested both with and without their trailing slash
+const cacheKey = (url) => url.pathname.replace(/(.)\\/$/, '$1');
+const keys = urls.map((url) => cacheKey(new URL(url, location.origin)));
+
+// Build assets referenced by a page or stylesheet. Only woff2 fonts are kept:
+// every browser with service workers picks them over the woff fallbacks.
+function findAssets(text) {
+  const matches = text.matchAll(/(?:href=|src=|url\\()["']?(\\/_astro\\/[^"')\\s>]+)/g);
+  return [...new Set([...matches].map((match) => match[1]).filter((url) => !url.endsWith('.woff')))];
+}
+
+async function precache(cache, url) {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error('Failed to cache ' + url + ': ' + response.status);
+  const type = response.headers.get('Content-Type') ?? '';
+  const text = type.includes('html') || type.includes('css') ? await response.clone().text() : '';
+  await cache.put(cacheKey(new URL(url, location.origin)), response);
+  await Promise.all(findAssets(text).map((asset) => precache(cache, asset)));
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(cacheName)
+      .then((cache) => Promise.all(urls.map((url) => precache(cache, url))))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) => Promise.all(names.filter((name) => name.startsWith('search ' + scope + ' ') && name !== cacheName).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Only sees requests from the search page it controls
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  const key = cacheKey(url);
+  if (event.request.method !== 'GET' || url.origin !== location.origin) return;
+  if (!keys.includes(key) && !url.pathname.startsWith('/_astro/')) return;
+
+  event.respondWith(
+    fetch(event.request)
+      .then((response) => {
+        if (response.ok && !response.redirected) {
+          const copy = response.clone();
+          caches.open(cacheName).then((cache) => cache.put(key, copy));
+        }
+        return response;
+      })
+      .catch(() => caches.open(cacheName).then((cache) => cache.match(key)).then((cached) => cached ?? Response.error()))
+  );
+});
+`;
+
+  return new Response(worker.trimStart(), {
+    headers: { 'Content-Type': 'text/javascript; charset=utf-8' },
+  });
+};
@@ -0,0 +1,49 @@
+import type { ShikiConfig } from 'astro';
+import type { Element, ElementContent } from 'hast';
+
+type ShikiTransformer = NonNullable<ShikiConfig['transformers']>[number];
+
+// `title="pom.xml"` in the fence's meta string, in either quote style
+function getTitle(meta: string | undefined) {
+  return meta?.match(/\btitle=(["'])(.*?)\1/)?.[2];
+}
+
+function element(tagName: string, properties: Element['properties'], children: ElementContent[] = []): Element {
+  return { type: 'element', tagName, properties, children };
+}
+
+const copyIcon = element('svg', { class: 'w-4 h-4', fill: 'none', stroke: 'currentColor', viewBox: '0 0 24 24', ariaHidden: 'true' }, [
+  element('path', {
+    strokeLinecap: 'round',
+    strokeLinejoin: 'round',
+    strokeWidth: '2',
+    d: 'M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z',
+  }),
+]);
+
+/**
+ * Wraps every highlighted block in a `<figure>` with a copy button, and a
+ * caption when the fence has a title:
+ *
+ *     ```xml title="pom.xml" {3-5}
+ *
+ * The button is labelled and wired up in the browser by Prose.astro.
+ */
+export function transformerCodeBlock(): ShikiTransformer {
+  return {
+    name: 'code-block',
+    root(root) {
+      const title = getTitle(this.options.meta?.__raw);
+      const pre = root.children.find((node): node is Element => node.type === 'element' && node.tagName === 'pre');
+      if (!pre) return;
+
+      root.children = [
+        element('figure', { class: 'code-block' }, [
+          ...(title ? [element('figcaption', { class: 'code-title' }, [{ type: 'text', value: title }])] : []),
+          pre,
+          element('button', { type: 'button', class: 'copy-code', dataCopyCode: '' }, [copyIcon]),
+        ]),
+      ];
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import yaml from 'js-yaml';
+import { defaultLang, languages } from '../i18n/translations';
+
+// Parsed the way the content layer parses it, so dates are Dates and flags booleans
+export type Frontmatter = Record<string, unknown>;
+
+export interface ContentFile {
+  // Relative to the collection directory, e.g. `de/foo.md`
+  file: string;
+  slug: string;
+  // From the `<lang>/` directory; the frontmatter `lang` must agree
+  lang: string;
+  data: Frontmatter;
+}
+
+/** The frontmatter of a content file, for tools that run outside the content layer. */
+export function parseFrontmatter(source: string): Frontmatter {
+  const block = source.match(/^---\r?\n([\s\S]*?)\r?\n---/)?.[1] ?? '';
+  const data = yaml.load(block);
+  return data && typeof data === 'object' && !Array.isArray(data) ? (data as Frontmatter) : {};
+}
+
+/** The language an entry's `<lang>/` directory puts it in; top-level entries are in the default language. */
+export function getDirectoryLang(file: string) {
+  const [dir, ...rest] = file.split('/');
+  return rest.length > 0 && dir in languages ? dir : defaultLang;
+}
+
+/**
+ * Fails when an entry's frontmatter `lang` differs from its directory. Without
+ * this, a translation in `de/` that forgets `lang: de` is published as a
+ * separate post in the default language.
+ */
+export function checkEntryLang(collection: string, file: string, lang: string) {
+  const expected = getDirectoryLang(file);
+  if (lang !== expected) {
+    throw new Error(`src/content/${collection}/${file} is in the ${expected} directory but has lang "${lang}"; set lang: ${expected}`);
+  }
+}
+
+/**
+ * Every entry of a collection as read from disk, for code that runs outside the
+ * content layer. Slugs follow getPostSlug(): translations in `<lang>/` share
+ * the slug of their original unless they set a translationKey.
+ */
+export function readContentFiles(collection: string, contentDir = 'src/content'): ContentFile[] {
+  const dir = join(contentDir, collection);
+
+  return readdirSync(dir, { recursive: true, encoding: 'utf-8' })
+    .filter((file) => /\.mdx?$/.test(file))
+    .map((path) => {
+      const file = path.replaceAll('\\', '/');
+      const data = parseFrontmatter(readFileSync(join(dir, file), 'utf-8'));
+      const lang = getDirectoryLang(file);
+      const name = file.replace(/\.mdx?$/, '');
+      const slug = typeof data.translationKey === 'string' ? data.translationKey : name.replace(new RegExp(`^${lang}/`), '');
+      return { file, slug, lang, data };
+    });
+}
+
+/** Same rule as isPublished() in ./posts. Entries without a date, like projects, are always published. */
+export function isPublishedFile({ data }: ContentFile) {
+  const date = data.date instanceof Date || typeof data.date === 'string' ? new Date(data.date) : undefined;
+  return data.draft !== true && (!date || date.getTime() <= Date.now());
+}
@@ -0,0 +1,35 @@
+import { Graphviz } from '@hpcc-js/wasm-graphviz';
+
+let graphviz: Promise<Graphviz> | undefined;
+
+// Applied before the author's own attributes, which win
+const defaults = [
+  'graph [bgcolor=transparent fontname="Inter" fontsize=12 pad=0.1 nodesep=0.4 ranksep=0.5]',
+  'node [shape=box style=rounded fontname="Inter" fontsize=12 margin="0.2,0.1"]',
+  'edge [fontname="Inter" fontsize=10 arrowsize=0.7]',
+].join('\n');
+
+/**
+ * Lays out a Graphviz DOT graph into inline SVG at build time. Black strokes,
+ * fills and text become `currentColor`, so diagrams follow the light and dark
+ * theme; colors set in the DOT source stay as written.
+ */
+export async function renderDiagram(dot: string) {
+  graphviz ??= Graphviz.load();
+  const source = dot.replace('{', `{\n${defaults}\n`);
+  const svg = (await graphviz).dot(source);
+
+  return (
+    svg
+      // Prolog, doctype and comments are not allowed inside HTML
+      .slice(svg.indexOf('<svg'))
+      .replace(/<!--[\s\S]*?-->/g, '')
+      // Node names as tooltips, and ids that would repeat with several diagrams on a page
+      .replace(/<title>[\s\S]*?<\/title>/g, '')
+      .replace(/\sid="[^"]*"/g, '')
+      .replace(/(fill|stroke)="black"/g, '$1="currentColor"')
+      // Scale with the column, but never beyond the laid-out size
+      .replace(/<svg width="([\d.]+)pt" height="[\d.]+pt"/, '<svg fill="currentColor" style="max-width: $1pt" class="w-full h-auto"')
+      .trim()
+  );
+}
@@ -0,0 +1,196 @@
+import { useTranslations, getLocalizedPath } from '../i18n/translations';
+import { getLocalizedPosts, getPostUrl, type Lang } from './posts';
+import { renderPostHtml } from './render';
+
+export const feedFormats = ['rss.xml', 'atom.xml', 'feed.json'] as const;
+export type FeedFormat = (typeof feedFormats)[number];
+
+const contentTypes: Record<FeedFormat, string> = {
+  'rss.xml': 'application/rss+xml; charset=utf-8',
+  'atom.xml': 'application/atom+xml; charset=utf-8',
+  'feed.json': 'application/feed+json; charset=utf-8',
+};
+
+const author = { name: 'Varij Kapil', url: 'https://varij.dev' };
+
+interface FeedItem {
+  title: string;
+  description?: string;
+  url: string;
+  date: Date;
+  updated?: Date;
+  tags: string[];
+  lang: Lang;
+  html: string;
+}
+
+interface Feed {
+  title: string;
+  description: string;
+  lang: Lang;
+  // Path of the HTML page the feed mirrors, e.g. `/de/blog`
+  homePath: string;
+  // Path the feed files live under, e.g. `/blog/tags/kubernetes`
+  feedPath: string;
+  items: FeedItem[];
+}
+
+interface FeedOptions {
+  lang: Lang;
+  tag?: string;
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Feed readers resolve nothing against the site, so root-relative links must be absolute
+function absolutizeUrls(html: string, site: URL) {
+  return html.replace(/(href|src)="\/(?!\/)/g, `$1="${site.origin}/`);
+}
+
+// Copy buttons and tab bars need the page's scripts, which readers don't run (and the
+// container links by source path), so readers get every tab under its label instead
+function removeControls(html: string) {
+  return html
+    .replace(/<script\b[\s\S]*?<\/script>/g, '')
+    .replace(/<button\b[^>]*data-copy-code[\s\S]*?<\/button>/g, '')
+    .replace(/<div\b[^>]*role="tablist"[\s\S]*?<\/div>/g, '')
+    .replace(/<div\b[^>]*class="tab-panel"[^>]*data-tab-label="([^"]*)">/g, '<div class="tab-panel"><p><strong>$1</strong></p>');
+}
+
+/** Collects the posts for a locale (optionally narrowed to one tag) with their rendered content. */
+export async function getFeed({ lang, tag }: FeedOptions, site: URL): Promise<Feed> {
+  const t = useTranslations(lang);
+  const posts = (await getLocalizedPosts(lang, { previews: false }))
+    .map(({ post }) => post)
+    .filter((post) => !tag || post.data.tags.includes(tag));
+
+  const items = await Promise.all(
+    posts.map(async (post) => ({
+      title: post.data.title,
+      description: post.data.description,
+      url: new URL(getPostUrl(post, lang), site).toString(),
+      date: post.data.date,
+      updated: post.data.updated,
+      tags: post.data.tags,
+      lang: post.data.lang,
+      html: absolutizeUrls(removeControls(await renderPostHtml(post)), site),
+    }))
+  );
+
+  return {
+    title: tag ? `${author.name} – #${tag}` : `${author.name} – ${t('blogPage.title')}`,
+    description: t('blogPage.metaDescription'),
+    lang,
+    homePath: getLocalizedPath(tag ? `/blog/tags/${tag}` : '/blog', lang),
+    feedPath: tag ? `/blog/tags/${tag}` : getLocalizedPath('', lang),
+    items,
+  };
+}
+
+function renderRss(feed: Feed, site: URL) {
+  const items = feed.items.map((item) => `
+    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${item.url}</link>
+      <guid isPermaLink="true">${item.url}</guid>
+      <pubDate>${item.date.toUTCString()}</pubDate>
+      ${item.description ? `<description>${escapeXml(item.description)}</description>` : ''}
+      <content:encoded>${escapeXml(item.html)}</content:encoded>
+      ${item.tags.map((tag) => `<category>${escapeXml(tag)}</category>`).join('')}
+    </item>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${new URL(feed.homePath, site)}</link>
+    <description>${escapeXml(feed.description)}</description>
+    <language>${feed.lang}</language>
+    <atom:link href="${new URL(`${feed.feedPath}/rss.xml`, site)}" rel="self" type="application/rss+xml" />
+    ${feed.items[0] ? `<lastBuildDate>${feed.items[0].date.toUTCString()}</lastBuildDate>` : ''}${items.join('')}
+  </channel>
+</rss>
+`;
+}
+
+function renderAtom(feed: Feed, site: URL) {
+  const updated = (feed.items[0]?.date ?? new Date()).toISOString();
+  const entries = feed.items.map((item) => `
+  <entry xml:lang="${item.lang}">
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" type="text/html" href="${item.url}" />
+    <id>${item.url}</id>
+    <published>${item.date.toISOString()}</published>
+    <updated>${(item.updated ?? item.date).toISOString()}</updated>
+    ${item.description ? `<summary>${escapeXml(item.description)}</summary>` : ''}
+    <content type="html">${escapeXml(item.html)}</content>
+    ${item.tags.map((tag) => `<category term="${escapeXml(tag)}" />`).join('')}
+  </entry>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${feed.lang}">
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <link rel="self" type="application/atom+xml" href="${new URL(`${feed.feedPath}/atom.xml`, site)}" />
+  <link rel="alternate" type="text/html" href="${new URL(feed.homePath, site)}" />
+  <id>${new URL(feed.homePath, site)}</id>
+  <updated>${updated}</updated>
+  <author><name>${author.name}</name><uri>${author.url}</uri></author>${entries.join('')}
+</feed>
+`;
+}
+
+function renderJsonFeed(feed: Feed, site: URL) {
+  return JSON.stringify(
+    {
+      version: 'https://jsonfeed.org/version/1.1',
+      title: feed.title,
+      description: feed.description,
+      language: feed.lang,
+      home_page_url: new URL(feed.homePath, site).toString(),
+      feed_url: new URL(`${feed.feedPath}/feed.json`, site).toString(),
+      authors: [author],
+      items: feed.items.map((item) => ({
+        id: item.url,
+        url: item.url,
+        title: item.title,
+        summary: item.description,
+        content_html: item.html,
+        date_published: item.date.toISOString(),
+        date_modified: item.updated?.toISOString(),
+        tags: item.tags,
+        language: item.lang,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+const renderers: Record<FeedFormat, (feed: Feed, site: URL) => string> = {
+  'rss.xml': renderRss,
+  'atom.xml': renderAtom,
+  'feed.json': renderJsonFeed,
+};
+
+export function renderFeed(format: FeedFormat, feed: Feed, site: URL) {
+  return new Response(renderers[format](feed, site), {
+    headers: { 'Content-Type': contentTypes[format] },
+  });
+}
+
+/** `<link rel="alternate">` descriptors for the feeds published under `feedPath`. */
+export function getFeedLinks(feedPath: string, title: string) {
+  return [
+    { type: 'application/rss+xml', href: `${feedPath}/rss.xml`, title: `${title} (RSS)` },
+    { type: 'application/atom+xml', href: `${feedPath}/atom.xml`, title: `${title} (Atom)` },
+    { type: 'application/feed+json', href: `${feedPath}/feed.json`, title: `${title} (JSON Feed)` },
+  ];
+}
@@ -0,0 +1,56 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { z } from 'astro/zod';
+
+const repoSchema = z.object({
+  url: z.string().url(),
+  stars: z.number().int(),
+  forks: z.number().int(),
+  lastCommit: z.coerce.date(),
+  // Bytes of code per language, as reported by the GitHub API
+  languages: z.record(z.number()),
+  archived: z.boolean().default(false),
+});
+
+const cacheSchema = z.object({
+  // Null in the committed fixture, which holds no fetched data
+  fetchedAt: z.coerce.date().nullable(),
+  repos: z.record(repoSchema),
+});
+
+export type RepoMetadata = z.infer<typeof repoSchema>;
+
+// Written by `npm run github:cache` and not committed
+const cachePath = '.cache/github-repos.json';
+// Committed snapshot, so a fresh checkout builds without the network or a token
+const fixturePath = 'src/data/github-repos.fixture.json';
+
+let cache: z.infer<typeof cacheSchema> | undefined;
+
+/** The cached metadata of every known repository. Builds never call the GitHub API themselves. */
+function getCache() {
+  if (!cache) {
+    const file = resolve(existsSync(cachePath) ? cachePath : fixturePath);
+    const result = cacheSchema.safeParse(JSON.parse(readFileSync(file, 'utf-8')));
+    if (!result.success) throw new Error(`Invalid GitHub metadata in ${file}: ${result.error.message}`);
+    cache = result.data;
+  }
+  return cache;
+}
+
+/** Stars, last commit and languages of an `owner/name` repository, if it has been fetched. */
+export function getRepoMetadata(repo: string): RepoMetadata | undefined {
+  return getCache().repos[repo];
+}
+
+/** The biggest languages of a repository by share of its code, in percent to one decimal. */
+export function getLanguageShares(metadata: RepoMetadata, limit = 4) {
+  const total = Object.values(metadata.languages).reduce((sum, bytes) => sum + bytes, 0);
+  if (total === 0) return [];
+
+  return Object.entries(metadata.languages)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([name, bytes]) => ({ name, percent: Math.round((bytes / total) * 1000) / 10 }))
+    .filter(({ percent }) => percent > 0);
+}
@@ -0,0 +1,8 @@
+const counts = new Map<string, number>();
+
+/** An id that no other call with the same prefix returns during the build, for ARIA references between elements. */
+export function createId(prefix: string) {
+  const count = (counts.get(prefix) ?? 0) + 1;
+  counts.set(prefix, count);
+  return `${prefix}-${count}`;
+}
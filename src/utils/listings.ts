@@ -0,0 +1,99 @@
+import { getLocalizedPath } from '../i18n/translations';
+import { getLocalizedPosts, type Lang, type LocalizedPost } from './posts';
+
+export const postsPerPage = 9;
+
+export function getBlogPageUrl(page: number, lang: Lang) {
+  return getLocalizedPath(page === 1 ? '/blog' : `/blog/page/${page}`, lang);
+}
+
+export function getTagUrl(tag: string, lang: Lang) {
+  return getLocalizedPath(`/blog/tags/${tag}`, lang);
+}
+
+export function getArchiveUrl(lang: Lang, year: number, month?: number) {
+  const period = month ? `${year}/${String(month).padStart(2, '0')}` : `${year}`;
+  return getLocalizedPath(`/blog/archive/${period}`, lang);
+}
+
+/** Tags with their post counts, most used first. */
+export function getTagCounts(posts: LocalizedPost[]) {
+  const counts = new Map<string, number>();
+  for (const { post } of posts) {
+    for (const tag of post.data.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+export interface ArchiveYear {
+  year: number;
+  count: number;
+  months: { month: number; count: number }[];
+}
+
+/** Years and months that have posts, newest first. */
+export function getArchivePeriods(posts: LocalizedPost[]): ArchiveYear[] {
+  const years = new Map<number, Map<number, number>>();
+  for (const { post } of posts) {
+    const year = post.data.date.getUTCFullYear();
+    const month = post.data.date.getUTCMonth() + 1;
+    const months = years.get(year) ?? new Map<number, number>();
+    months.set(month, (months.get(month) ?? 0) + 1);
+    years.set(year, months);
+  }
+  return [...years.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([year, months]) => ({
+      year,
+      count: [...months.values()].reduce((sum, count) => sum + count, 0),
+      months: [...months.entries()]
+        .sort(([a], [b]) => b - a)
+        .map(([month, count]) => ({ month, count })),
+    }));
+}
+
+// Static paths for the listing routes. The `[lang]` variants spread their
+// own `lang` param into these; the unprefixed routes use the default locale.
+
+/** Pages 2..n of the blog index; page 1 is the index itself. */
+export async function getBlogPagePaths(lang: Lang) {
+  const posts = await getLocalizedPosts(lang);
+  const totalPages = Math.ceil(posts.length / postsPerPage);
+
+  return Array.from({ length: Math.max(totalPages - 1, 0) }, (_, i) => i + 2).map((page) => ({
+    params: { page: String(page) },
+    props: {
+      posts: posts.slice((page - 1) * postsPerPage, page * postsPerPage),
+      currentPage: page,
+      totalPages,
+    },
+  }));
+}
+
+export async function getTagPaths(lang: Lang) {
+  const posts = await getLocalizedPosts(lang);
+
+  return getTagCounts(posts).map(({ tag }) => ({
+    params: { tag },
+    props: { tag, posts: posts.filter(({ post }) => post.data.tags.includes(tag)) },
+  }));
+}
+
+export async function getArchivePaths(lang: Lang) {
+  const posts = await getLocalizedPosts(lang);
+  const inPeriod = (year: number, month?: number) =>
+    posts.filter(({ post }) =>
+      post.data.date.getUTCFullYear() === year &&
+      (!month || post.data.date.getUTCMonth() + 1 === month)
+    );
+
+  return getArchivePeriods(posts).flatMap(({ year, months }) => [
+    { params: { period: `${year}` }, props: { year, posts: inPeriod(year) } },
+    ...months.map(({ month }) => ({
+      params: { period: `${year}/${String(month).padStart(2, '0')}` },
+      props: { year, month, posts: inPeriod(year, month) },
+    })),
+  ]);
+}
@@ -0,0 +1,149 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import satori from 'satori';
+import { Resvg } from '@resvg/resvg-js';
+import { languages, defaultLang, formatDate, useTranslations, getLocalizedPath } from '../i18n/translations';
+import { getLocalizedPosts, getPostUrl, type Lang } from './posts';
+import { getTagCounts, getTagUrl } from './listings';
+import { getLocalizedProjects, getProjectUrl } from './projects';
+
+export interface OgImage {
+  // Path of the page the image belongs to, e.g. `/de/blog/foo`
+  path: string;
+  title: string;
+  subtitle?: string;
+  tags?: string[];
+  date?: Date;
+  lang: Lang;
+}
+
+/**
+ * Where the generated image for a page lives. Paginated and archive listings
+ * share the card of their blog index.
+ */
+export function getOgImagePath(pathname: string) {
+  const path = pathname.replace(/\/$/, '').replace(/\/blog\/(page|archive)\/.*$/, '/blog');
+  return `/og${path || '/index'}.png`;
+}
+
+/** Every page that gets a generated card: static pages per locale, posts, projects and tags. */
+export async function getOgImages(): Promise<OgImage[]> {
+  const images: OgImage[] = [];
+
+  for (const lang of Object.keys(languages) as Lang[]) {
+    const t = useTranslations(lang);
+    const posts = await getLocalizedPosts(lang, { previews: false });
+    const page = (path: string, title: string, subtitle?: string) =>
+      images.push({ path: getLocalizedPath(path, lang), title, subtitle, lang });
+
+    page('/', `${t('hero.greeting')} ${t('hero.name')}`, t('hero.title'));
+    page('/about', `${t('about.title')} ${t('about.titleHighlight')}`, t('hero.description'));
+    page('/projects', `${t('projects.title')} ${t('projects.titleHighlight')}`, t('projects.description'));
+    page('/blog', `${t('blogPage.heading')} ${t('blogPage.headingHighlight')}`, t('blogPage.description'));
+    page('/blog/tags', `${t('tags.title')} ${t('tags.titleHighlight')}`, t('tags.description'));
+    page('/search', `${t('search.title')} ${t('search.titleHighlight')}`, t('search.description'));
+
+    for (const { post } of posts) {
+      images.push({
+        path: getPostUrl(post, lang),
+        title: post.data.title,
+        tags: post.data.tags,
+        date: post.data.date,
+        lang,
+      });
+    }
+
+    for (const { slug, data } of await getLocalizedProjects(lang)) {
+      images.push({ path: getProjectUrl(slug, lang), title: data.title, subtitle: data.description, tags: data.tech, lang });
+    }
+
+    for (const { tag } of getTagCounts(posts)) {
+      images.push({ path: getTagUrl(tag, lang), title: `#${tag}`, subtitle: t('blogPage.tagged'), lang });
+    }
+  }
+
+  images.push({ path: '/404', title: 'Page Not Found', lang: defaultLang });
+  return images;
+}
+
+const require = createRequire(import.meta.url);
+
+async function loadFont(file: string) {
+  return readFile(require.resolve(file));
+}
+
+// Inter covers Latin; Noto Sans Devanagari is the fallback for Hindi glyphs
+let fonts: Promise<Parameters<typeof satori>[1]['fonts']> | undefined;
+
+function getFonts() {
+  fonts ??= Promise.all([
+    loadFont('@fontsource/inter/files/inter-latin-400-normal.woff'),
+    loadFont('@fontsource/inter/files/inter-latin-700-normal.woff'),
+    loadFont('@fontsource/noto-sans-devanagari/files/noto-sans-devanagari-devanagari-400-normal.woff'),
+    loadFont('@fontsource/noto-sans-devanagari/files/noto-sans-devanagari-devanagari-700-normal.woff'),
+  ]).then(([inter400, inter700, noto400, noto700]) => [
+    { name: 'Inter', data: inter400, weight: 400, style: 'normal' },
+    { name: 'Inter', data: inter700, weight: 700, style: 'normal' },
+    { name: 'Noto Sans Devanagari', data: noto400, weight: 400, style: 'normal' },
+    { name: 'Noto Sans Devanagari', data: noto700, weight: 700, style: 'normal' },
+  ]);
+  return fonts;
+}
+
+// Minimal element factory for satori, which takes React-like nodes without needing React
+function h(type: string, style: Record<string, unknown>, ...children: unknown[]) {
+  return { type, props: { style, children: children.length === 1 ? children[0] : children } };
+}
+
+/** Renders a 1200×630 card with the site branding to PNG. */
+export async function renderOgImage(image: OgImage) {
+  const date = image.date && formatDate(image.date, image.lang);
+
+  const card = h(
+    'div',
+    {
+      width: '100%',
+      height: '100%',
+      display: 'flex',
+      flexDirection: 'column',
+      justifyContent: 'space-between',
+      padding: '64px 72px',
+      backgroundColor: '#020617',
+      backgroundImage: 'radial-gradient(circle at 85% 10%, rgba(217, 70, 239, 0.25), transparent 45%), radial-gradient(circle at 10% 90%, rgba(14, 165, 233, 0.25), transparent 45%)',
+      color: '#f1f5f9',
+      fontFamily: 'Inter, "Noto Sans Devanagari"',
+    },
+    h(
+      'div',
+      { display: 'flex', flexWrap: 'wrap', gap: '12px' },
+      ...(image.tags ?? []).slice(0, 4).map((tag) =>
+        h('div', { padding: '6px 18px', borderRadius: '9999px', backgroundColor: 'rgba(14, 165, 233, 0.15)', color: '#38bdf8', fontSize: '26px' }, tag)
+      )
+    ),
+    h(
+      'div',
+      { display: 'flex', flexDirection: 'column', gap: '20px' },
+      h('div', { fontSize: image.title.length > 60 ? '56px' : '68px', fontWeight: 700, lineHeight: 1.15 }, image.title),
+      image.subtitle ? h('div', { fontSize: '30px', color: '#94a3b8', lineHeight: 1.4 }, image.subtitle) : h('div', { display: 'flex' })
+    ),
+    h(
+      'div',
+      { display: 'flex', alignItems: 'center', justifyContent: 'space-between', fontSize: '28px' },
+      h(
+        'div',
+        { display: 'flex', alignItems: 'center', gap: '18px' },
+        h(
+          'div',
+          { width: '56px', height: '56px', borderRadius: '9999px', display: 'flex', alignItems: 'center', justifyContent: 'center', backgroundImage: 'linear-gradient(90deg, #0ea5e9, #d946ef)', fontWeight: 700, fontSize: '24px' },
+          'VK'
+        ),
+        h('div', { fontWeight: 700 }, 'Varij Kapil'),
+        h('div', { color: '#64748b' }, 'varij.dev')
+      ),
+      h('div', { color: '#94a3b8' }, date ?? '')
+    )
+  );
+
+  const svg = await satori(card as Parameters<typeof satori>[0], { width: 1200, height: 630, fonts: await getFonts() });
+  return new Resvg(svg).render().asPng();
+}
@@ -0,0 +1,124 @@
+import { getCollection, type CollectionEntry } from 'astro:content';
+import { defaultLang, getLocalizedPath, languages } from '../i18n/translations';
+import { checkEntryLang } from './content-files';
+
+export type BlogPost = CollectionEntry<'blog'>;
+export type Lang = keyof typeof languages;
+
+export interface LocalizedPost {
+  post: BlogPost;
+  // True when `post` is the original shown because no translation exists yet
+  isFallback: boolean;
+}
+
+export interface PostQueryOptions {
+  // Include drafts and scheduled posts. Only ever true under `astro dev`.
+  previews?: boolean;
+}
+
+/**
+ * A post is published once it is not a draft and its date has passed. The site
+ * is static, so a scheduled post goes live with the first build after its date.
+ */
+export function isPublished(post: BlogPost) {
+  return !post.data.draft && post.data.date.getTime() <= Date.now();
+}
+
+/**
+ * Every page, feed and listing reads posts through here. Production builds only
+ * ever see published posts, so drafts get no page and stay out of the sitemap.
+ */
+export async function getPosts({ previews = import.meta.env.DEV }: PostQueryOptions = {}) {
+  return getCollection('blog', (post) => {
+    checkEntryLang('blog', post.id, post.data.lang);
+    return (previews && import.meta.env.DEV) || isPublished(post);
+  });
+}
+
+/**
+ * The URL slug shared by every language version of a post. Defaults to the
+ * file slug without its `<lang>/` directory, so `de/foo.md` translates `foo.md`.
+ */
+export function getPostSlug(post: BlogPost) {
+  if (post.data.translationKey) return post.data.translationKey;
+  const prefix = `${post.data.lang}/`;
+  return post.slug.startsWith(prefix) ? post.slug.slice(prefix.length) : post.slug;
+}
+
+export function getPostUrl(post: BlogPost, lang: Lang = post.data.lang) {
+  return getLocalizedPath(`/blog/${getPostSlug(post)}`, lang);
+}
+
+function groupByTranslation(posts: BlogPost[]) {
+  const groups = new Map<string, BlogPost[]>();
+  for (const post of posts) {
+    const key = getPostSlug(post);
+    groups.set(key, [...(groups.get(key) ?? []), post]);
+  }
+  return groups;
+}
+
+// The version other languages fall back to: the default-language post, else the oldest one
+function getOriginal(versions: BlogPost[]) {
+  return (
+    versions.find((post) => post.data.lang === defaultLang) ??
+    [...versions].sort((a, b) => a.data.date.getTime() - b.data.date.getTime())[0]
+  );
+}
+
+/**
+ * One entry per post for the given language, newest first: the translation
+ * when it exists, otherwise the original marked as a fallback.
+ */
+export async function getLocalizedPosts(lang: Lang, options?: PostQueryOptions): Promise<LocalizedPost[]> {
+  const posts = await getPosts(options);
+
+  return [...groupByTranslation(posts).values()]
+    .map((versions) => {
+      const translated = versions.find((post) => post.data.lang === lang);
+      return translated
+        ? { post: translated, isFallback: false }
+        : { post: getOriginal(versions), isFallback: true };
+    })
+    .sort((a, b) => b.post.data.date.getTime() - a.post.data.date.getTime());
+}
+
+/** Every language version of a post, including the post itself. */
+export async function getPostVersions(post: BlogPost) {
+  const slug = getPostSlug(post);
+  const posts = await getPosts();
+
+  return posts.filter((p) => getPostSlug(p) === slug);
+}
+
+/**
+ * The post's raw text. In MDX posts, imports, exports and component tags with
+ * their props are left out, while text inside the components stays.
+ */
+export function getPostText(post: BlogPost) {
+  if (!post.id.endsWith('.mdx')) return post.body;
+  return post.body
+    .replace(/^(import|export)\s.*$/gm, '')
+    .replace(/\{`[\s\S]*?`\}/g, '')
+    .replace(/<\/?[A-Z][\w.]*(\s[^>]*)?\/?>/g, '');
+}
+
+const wordsPerMinute = 200;
+
+/** Word count and estimated reading time in whole minutes, from the raw markdown. */
+export function getReadingStats(post: BlogPost) {
+  const words = getPostText(post).match(/[\p{L}\p{N}][\p{L}\p{M}\p{N}'’-]*/gu)?.length ?? 0;
+  return { words, minutes: Math.max(1, Math.round(words / wordsPerMinute)) };
+}
+
+/** The parts of the post's series in the given language, in reading order. */
+export async function getSeriesPosts(post: BlogPost, lang: Lang) {
+  const series = post.data.series;
+  if (!series) return [];
+
+  const posts = await getLocalizedPosts(lang);
+  return posts
+    .map(({ post }) => post)
+    .filter((p) => p.data.series?.name === series.name)
+    .sort((a, b) => a.data.series!.order - b.data.series!.order);
+}
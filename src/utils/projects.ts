@@ -0,0 +1,117 @@
+import { getCollection, type CollectionEntry } from 'astro:content';
+import { defaultLang, getLocalizedPath } from '../i18n/translations';
+import { checkEntryLang } from './content-files';
+import { getRepoMetadata, type RepoMetadata } from './github';
+import type { Lang } from './posts';
+
+export type ProjectEntry = CollectionEntry<'projects'>;
+type ProjectFields = ProjectEntry['data'];
+export type ProjectStatus = NonNullable<ProjectFields['status']>;
+export type ProjectIcon = NonNullable<ProjectFields['icon']>;
+export type ProjectColor = NonNullable<ProjectFields['color']>;
+
+/** A project's fields in one language, with the shared ones inherited from the original. */
+export interface ProjectData extends Omit<ProjectFields, 'status' | 'icon' | 'color' | 'tech' | 'links' | 'order'> {
+  status?: ProjectStatus;
+  icon: ProjectIcon;
+  color: ProjectColor;
+  tech: string[];
+  links: NonNullable<ProjectFields['links']>;
+  order: number;
+}
+
+export interface LocalizedProject {
+  // The entry whose body is rendered: the translation, or the original as a fallback
+  entry: ProjectEntry;
+  slug: string;
+  data: ProjectData;
+  isFallback: boolean;
+  // Languages the project is written in
+  versions: Lang[];
+  // Metadata from the GitHub cache, when the project has a `github` repository
+  repo?: RepoMetadata;
+}
+
+export const projectColors: Record<ProjectColor, { bg: string; text: string; iconBg: string }> = {
+  primary: {
+    bg: 'bg-primary-50 dark:bg-primary-950',
+    text: 'text-primary-500',
+    iconBg: 'bg-primary-100 dark:bg-primary-900',
+  },
+  accent: {
+    bg: 'bg-accent-50 dark:bg-accent-950',
+    text: 'text-accent-500',
+    iconBg: 'bg-accent-100 dark:bg-accent-900',
+  },
+  green: {
+    bg: 'bg-green-50 dark:bg-green-950',
+    text: 'text-green-500',
+    iconBg: 'bg-green-100 dark:bg-green-900',
+  },
+  orange: {
+    bg: 'bg-orange-50 dark:bg-orange-950',
+    text: 'text-orange-500',
+    iconBg: 'bg-orange-100 dark:bg-orange-900',
+  },
+};
+
+/** The URL slug shared by every language version of a project, as for posts. */
+export function getProjectSlug(project: ProjectEntry) {
+  if (project.data.translationKey) return project.data.translationKey;
+  const prefix = `${project.data.lang}/`;
+  return project.slug.startsWith(prefix) ? project.slug.slice(prefix.length) : project.slug;
+}
+
+export function getProjectUrl(slug: string, lang: Lang) {
+  return getLocalizedPath(`/projects/${slug}`, lang);
+}
+
+// Fields a translation leaves out are taken from the original
+function localize(original: ProjectEntry, translated: ProjectEntry): ProjectData {
+  const own = Object.fromEntries(Object.entries(translated.data).filter(([, value]) => value !== undefined));
+  const data = { ...original.data, ...own };
+  const missing = (['icon', 'color'] as const).filter((field) => !data[field]);
+  if (missing.length) throw new Error(`Project "${original.id}" has no ${missing.join(', ')}`);
+
+  return {
+    ...data,
+    icon: data.icon!,
+    color: data.color!,
+    tech: data.tech ?? [],
+    links: {
+      ...(data.github && { repo: `https://github.com/${data.github}` }),
+      ...data.links,
+    },
+    order: data.order ?? Infinity,
+  };
+}
+
+/**
+ * One entry per project for the given language, in display order: the
+ * translation when it exists, otherwise the original marked as a fallback.
+ */
+export async function getLocalizedProjects(lang: Lang): Promise<LocalizedProject[]> {
+  const groups = new Map<string, ProjectEntry[]>();
+  for (const project of await getCollection('projects')) {
+    checkEntryLang('projects', project.id, project.data.lang);
+    const slug = getProjectSlug(project);
+    groups.set(slug, [...(groups.get(slug) ?? []), project]);
+  }
+
+  return [...groups]
+    .map(([slug, versions]) => {
+      const original = versions.find((project) => project.data.lang === defaultLang) ?? versions[0];
+      const translated = versions.find((project) => project.data.lang === lang);
+      const entry = translated ?? original;
+      const data = localize(original, entry);
+      return {
+        entry,
+        slug,
+        data,
+        isFallback: !translated,
+        versions: versions.map((project) => project.data.lang),
+        repo: data.github ? getRepoMetadata(data.github) : undefined,
+      };
+    })
+    .sort((a, b) => a.data.order - b.data.order || a.data.title.localeCompare(b.data.title));
+}
@@ -0,0 +1,195 @@
+import { getLocalizedPosts, getPostSlug, getPostText, type BlogPost, type Lang } from './posts';
+
+export interface ScoredPost {
+  post: BlogPost;
+  score: number;
+}
+
+// How much each signal contributes to a score; each signal is normalized to 0..1
+const weights = { tags: 0.5, text: 0.35, recency: 0.15 };
+// A post this many days old counts half as recent as one published today
+const recencyHalfLife = 365;
+
+// Title and description terms count as often as this many body mentions
+const titleBoost = 3;
+const descriptionBoost = 2;
+
+const stopWords = new Set(
+  (
+    'about after also and are because been before being between both but can could does doing during each else ' +
+    'every for from had has have here how into its just like more most much must not now only other our out over ' +
+    'same should some such than that the their them then there these they this those through too under until use ' +
+    'used uses using very was were what when where which while who why will with within without would you your ' +
+    'aber als auch auf aus bei bis das dass dein dem den der des die dir doch du ein eine einem einen einer es ' +
+    'für hat ich ihr ist kann mit nach nicht noch oder sich sie sind über und uns von vor wenn wie wir wird zu zum zur'
+  ).split(' ')
+);
+
+interface PostFeatures {
+  post: BlogPost;
+  slug: string;
+  tags: string[];
+  terms: Map<string, number>;
+  norm: number;
+}
+
+interface RelatedIndex {
+  features: PostFeatures[];
+  tagWeights: Map<string, number>;
+}
+
+function tokenize(text: string) {
+  return (text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{M}\p{N}+#]*/gu) ?? []).filter(
+    (token) => token.length > 2 && !stopWords.has(token) && !/^\d+$/.test(token)
+  );
+}
+
+function getTermCounts(post: BlogPost) {
+  // Code samples are mostly keywords and identifiers, which says little about the topic
+  const body = getPostText(post).replace(/```[\s\S]*?```/g, ' ');
+  const counts = new Map<string, number>();
+  const add = (text: string | undefined, boost: number) => {
+    for (const token of tokenize(text ?? '')) counts.set(token, (counts.get(token) ?? 0) + boost);
+  };
+
+  add(post.data.title, titleBoost);
+  add(post.data.description, descriptionBoost);
+  add(body, 1);
+  return counts;
+}
+
+// Inverse document frequency: rare terms and tags say more about a post than common ones
+function idf(documents: number, frequency: number) {
+  return Math.log((1 + documents) / (1 + frequency));
+}
+
+async function buildIndex(lang: Lang): Promise<RelatedIndex> {
+  const posts = (await getLocalizedPosts(lang, { previews: false })).map(({ post }) => post);
+  const counts = posts.map(getTermCounts);
+
+  const termFrequency = new Map<string, number>();
+  const tagFrequency = new Map<string, number>();
+  for (const termCounts of counts) {
+    for (const term of termCounts.keys()) termFrequency.set(term, (termFrequency.get(term) ?? 0) + 1);
+  }
+  for (const post of posts) {
+    for (const tag of post.data.tags) tagFrequency.set(tag, (tagFrequency.get(tag) ?? 0) + 1);
+  }
+
+  const features = posts.map((post, i) => {
+    const terms = new Map<string, number>();
+    for (const [term, count] of counts[i]) {
+      const weight = (1 + Math.log(count)) * idf(posts.length, termFrequency.get(term)!);
+      if (weight > 0) terms.set(term, weight);
+    }
+    const norm = Math.sqrt([...terms.values()].reduce((sum, weight) => sum + weight * weight, 0));
+    return { post, slug: getPostSlug(post), tags: post.data.tags, terms, norm };
+  });
+
+  // Shifted by one so a tag on every post still counts for something
+  const tagWeights = new Map(
+    [...tagFrequency].map(([tag, frequency]) => [tag, 1 + idf(posts.length, frequency)])
+  );
+
+  return { features, tagWeights };
+}
+
+const indexes = new Map<Lang, Promise<RelatedIndex>>();
+
+/** The term and tag statistics of every published post in a language, built once per build. */
+function getIndex(lang: Lang) {
+  // Posts change while the dev server runs, so only production builds reuse the index
+  if (import.meta.env.DEV) return buildIndex(lang);
+  if (!indexes.has(lang)) indexes.set(lang, buildIndex(lang));
+  return indexes.get(lang)!;
+}
+
+// Share of the source's tag weight that the candidate also carries
+function tagSimilarity(index: RelatedIndex, source: PostFeatures, candidate: PostFeatures) {
+  const weight = (tags: string[]) => tags.reduce((sum, tag) => sum + (index.tagWeights.get(tag) ?? 1), 0);
+  const total = weight(source.tags);
+  return total > 0 ? weight(source.tags.filter((tag) => candidate.tags.includes(tag))) / total : 0;
+}
+
+// Cosine similarity of the two TF-IDF vectors
+function textSimilarity(source: PostFeatures, candidate: PostFeatures) {
+  if (source.norm === 0 || candidate.norm === 0) return 0;
+  let dot = 0;
+  for (const [term, weight] of source.terms) dot += weight * (candidate.terms.get(term) ?? 0);
+  return dot / (source.norm * candidate.norm);
+}
+
+// Tag and text similarity combined, between 0 and the sum of their weights
+function similarity(index: RelatedIndex, source: PostFeatures, candidate: PostFeatures) {
+  return weights.tags * tagSimilarity(index, source, candidate) + weights.text * textSimilarity(source, candidate);
+}
+
+function recency(post: BlogPost) {
+  const date = post.data.updated ?? post.data.date;
+  const age = Math.max(0, (Date.now() - date.getTime()) / 86_400_000);
+  return 0.5 ** (age / recencyHalfLife);
+}
+
+function findFeatures(index: RelatedIndex, post: BlogPost) {
+  const slug = getPostSlug(post);
+  return index.features.find((features) => features.slug === slug);
+}
+
+// Drafts are not in the index, so a previewed draft weighs its terms equally
+function previewFeatures(post: BlogPost): PostFeatures {
+  const terms = new Map([...getTermCounts(post).keys()].map((term) => [term, 1]));
+  return { post, slug: getPostSlug(post), tags: post.data.tags, terms, norm: Math.sqrt(terms.size) };
+}
+
+/**
+ * Published posts most related to `post` in the given language, best first.
+ * Candidates must share a tag or some vocabulary with it; among those,
+ * recency nudges newer posts ahead.
+ */
+export async function getRelatedPosts(post: BlogPost, lang: Lang, limit = 3): Promise<ScoredPost[]> {
+  const index = await getIndex(lang);
+  const source = findFeatures(index, post) ?? previewFeatures(post);
+
+  return index.features
+    .filter((candidate) => candidate.slug !== source.slug)
+    .map((candidate) => ({ post: candidate.post, similarity: similarity(index, source, candidate) }))
+    .filter(({ similarity }) => similarity > 0)
+    .map(({ post, similarity }) => ({ post, score: similarity + weights.recency * recency(post) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Good starting points when there is no current post: the published posts most
+ * related to the rest of the blog on average, nudged towards recent ones.
+ */
+export async function getSuggestedPosts(
+  lang: Lang,
+  { limit = 3, exclude = [] }: { limit?: number; exclude?: BlogPost[] } = {}
+): Promise<ScoredPost[]> {
+  const index = await getIndex(lang);
+  const excluded = new Set(exclude.map(getPostSlug));
+  const others = Math.max(1, index.features.length - 1);
+
+  return index.features
+    .filter((source) => !excluded.has(source.slug))
+    .map((source) => {
+      const centrality = index.features
+        .filter((candidate) => candidate !== source)
+        .reduce((sum, candidate) => sum + similarity(index, source, candidate), 0);
+      return { post: source.post, score: centrality / others + weights.recency * recency(source.post) };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/** The highest-weighted terms of a post, for matching it against free text in the browser. */
+export async function getPostKeywords(post: BlogPost, lang: Lang, limit = 12) {
+  const features = findFeatures(await getIndex(lang), post);
+  if (!features) return [];
+
+  return [...features.terms]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([term]) => term);
+}
@@ -0,0 +1,29 @@
+import { getContainerRenderer as getMdxRenderer } from '@astrojs/mdx';
+import { experimental_AstroContainer as AstroContainer } from 'astro/container';
+import { loadRenderers } from 'astro:container';
+import type { BlogPost } from './posts';
+
+let container: Promise<AstroContainer> | undefined;
+
+/** Renders a post's body to HTML outside of a page, for feeds and the search index. */
+export async function renderPostHtml(post: BlogPost) {
+  // MDX posts render through the MDX integration's renderer, which the container lacks by default
+  container ??= loadRenderers([getMdxRenderer()]).then((renderers) => AstroContainer.create({ renderers }));
+  const { Content } = await post.render();
+  return (await container).renderToString(Content);
+}
+
+export function htmlToText(html: string) {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&#x27;|&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,66 @@
+import { languages, translations, useTranslations, getLocalizedPath, type TranslationKey } from '../i18n/translations';
+import { getPosts, getPostUrl, type Lang } from './posts';
+import { htmlToText, renderPostHtml } from './render';
+
+export interface SearchDocument {
+  type: 'post' | 'page';
+  url: string;
+  lang: Lang;
+  title: string;
+  description?: string;
+  tags: string[];
+  // ISO date, posts only
+  date?: string;
+  text: string;
+}
+
+// Static pages are indexed from their translated strings, grouped by key prefix
+const pages: { path: string; title: TranslationKey; prefixes: string[] }[] = [
+  { path: '/', title: 'nav.home', prefixes: ['hero.', 'skills.', 'cta.'] },
+  { path: '/about', title: 'nav.about', prefixes: ['about.'] },
+  { path: '/projects', title: 'nav.projects', prefixes: ['projects.'] },
+];
+
+function getPageDocuments(lang: Lang): SearchDocument[] {
+  const t = useTranslations(lang);
+  const keys = Object.keys(translations[lang]) as TranslationKey[];
+
+  return pages.map((page) => ({
+    type: 'page',
+    url: getLocalizedPath(page.path, lang),
+    lang,
+    title: t(page.title),
+    tags: [],
+    text: keys
+      .filter((key) => page.prefixes.some((prefix) => key.startsWith(prefix)))
+      // Arguments are filled in by the page itself; the surrounding words are enough to find it
+      .map((key) => t(key).replace(/\{\w+\}/g, ''))
+      .join(' '),
+  }));
+}
+
+/**
+ * Every published post in every language it exists in, plus the static pages
+ * of every locale. Served as one static JSON file and searched in the browser.
+ */
+export async function getSearchDocuments(): Promise<SearchDocument[]> {
+  const posts = await getPosts({ previews: false });
+
+  const postDocuments = await Promise.all(
+    posts.map(async (post) => ({
+      type: 'post' as const,
+      url: getPostUrl(post),
+      lang: post.data.lang,
+      title: post.data.title,
+      description: post.data.description,
+      tags: post.data.tags,
+      date: post.data.date.toISOString(),
+      text: htmlToText(await renderPostHtml(post)),
+    }))
+  );
+
+  return [
+    ...postDocuments.sort((a, b) => b.date.localeCompare(a.date)),
+    ...(Object.keys(languages) as Lang[]).flatMap(getPageDocuments),
+  ];
+}
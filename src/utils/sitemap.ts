@@ -0,0 +1,29 @@
+import { getLocalizedPath, languages } from '../i18n/translations';
+import { isPublishedFile, readContentFiles } from './content-files';
+
+// Collections whose entries get a page per language, and where those pages live
+const collections = [
+  { name: 'blog', path: '/blog' },
+  { name: 'projects', path: '/projects' },
+];
+
+/**
+ * Paths the sitemap leaves out: every language version of drafts and scheduled
+ * posts, and pages that show the original because a translation is missing.
+ * Those point their canonical link at the original, which is listed instead.
+ */
+export function getSitemapExclusions(contentDir = 'src/content') {
+  const excluded = new Set<string>();
+
+  for (const { name, path } of collections) {
+    const files = readContentFiles(name, contentDir);
+    for (const slug of new Set(files.map((file) => file.slug))) {
+      for (const lang of Object.keys(languages)) {
+        const version = files.find((file) => file.slug === slug && file.lang === lang);
+        if (!version || !isPublishedFile(version)) excluded.add(`${getLocalizedPath(`${path}/${slug}`, lang)}/`);
+      }
+    }
+  }
+
+  return excluded;
+}
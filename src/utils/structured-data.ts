@@ -0,0 +1,132 @@
+import { locales } from '../i18n/translations';
+import type { Lang } from './posts';
+
+// JSON-LD objects, serialized as-is into `<script type="application/ld+json">`
+export type StructuredData = Record<string, unknown>;
+
+export interface Breadcrumb {
+  name: string;
+  // Site-relative, e.g. `/de/blog`
+  path: string;
+}
+
+const context = 'https://schema.org';
+
+function absolute(path: string, site: URL) {
+  return new URL(path.endsWith('/') ? path : `${path}/`, site).toString();
+}
+
+export function getPersonSchema(site: URL): StructuredData {
+  return {
+    '@type': 'Person',
+    name: 'Varij Kapil',
+    url: site.toString(),
+    jobTitle: 'Head of Backend Engineering & Operations',
+    worksFor: {
+      '@type': 'Organization',
+      name: 'Digital Automotive',
+    },
+    address: {
+      '@type': 'PostalAddress',
+      addressLocality: 'Bonn',
+      addressCountry: 'Germany',
+    },
+    sameAs: ['https://linkedin.com/in/varijkapil13', 'https://github.com/varijkapil13'],
+  };
+}
+
+export function getWebSiteSchema(site: URL, name: string, lang: Lang): StructuredData {
+  return {
+    '@context': context,
+    '@type': 'WebSite',
+    name,
+    url: site.toString(),
+    inLanguage: locales[lang],
+    author: getPersonSchema(site),
+  };
+}
+
+/** The trail from the home page to the current page, which is the last item. */
+export function getBreadcrumbSchema(items: Breadcrumb[], site: URL): StructuredData {
+  return {
+    '@context': context,
+    '@type': 'BreadcrumbList',
+    itemListElement: items.map((item, i) => ({
+      '@type': 'ListItem',
+      position: i + 1,
+      name: item.name,
+      item: absolute(item.path, site),
+    })),
+  };
+}
+
+export interface BlogPostingOptions {
+  title: string;
+  description?: string;
+  path: string;
+  image: URL;
+  lang: Lang;
+  published: Date;
+  updated?: Date;
+  tags: string[];
+  wordCount: number;
+  minutes: number;
+  // The blog index the post belongs to
+  blog: { name: string; path: string };
+}
+
+export function getBlogPostingSchema(post: BlogPostingOptions, site: URL): StructuredData {
+  const url = absolute(post.path, site);
+  const author = getPersonSchema(site);
+
+  return {
+    '@context': context,
+    '@type': 'BlogPosting',
+    headline: post.title,
+    description: post.description,
+    url,
+    mainEntityOfPage: { '@type': 'WebPage', '@id': url },
+    image: post.image.toString(),
+    inLanguage: locales[post.lang],
+    datePublished: post.published.toISOString(),
+    // Search engines expect it even when the post was never revised
+    dateModified: (post.updated ?? post.published).toISOString(),
+    author,
+    publisher: author,
+    keywords: post.tags,
+    wordCount: post.wordCount,
+    timeRequired: `PT${post.minutes}M`,
+    isPartOf: { '@type': 'Blog', name: post.blog.name, url: absolute(post.blog.path, site) },
+  };
+}
+
+export interface CollectionPageOptions {
+  name: string;
+  description?: string;
+  path: string;
+  lang: Lang;
+  items: { name: string; path: string }[];
+}
+
+/** A listing page, such as the posts of one tag, with its entries in display order. */
+export function getCollectionPageSchema(page: CollectionPageOptions, site: URL): StructuredData {
+  return {
+    '@context': context,
+    '@type': 'CollectionPage',
+    name: page.name,
+    description: page.description,
+    url: absolute(page.path, site),
+    inLanguage: locales[page.lang],
+    isPartOf: { '@type': 'WebSite', url: site.toString() },
+    mainEntity: {
+      '@type': 'ItemList',
+      numberOfItems: page.items.length,
+      itemListElement: page.items.map((item, i) => ({
+        '@type': 'ListItem',
+        position: i + 1,
+        name: item.name,
+        url: absolute(item.path, site),
+      })),
+    },
+  };
+}
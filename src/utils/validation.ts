@@ -0,0 +1,208 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { tagTaxonomy } from '../data/tags';
+import { defaultLang, getLangFromUrl, getUnlocalizedPath, languages } from '../i18n/translations';
+import { isPublishedFile, readContentFiles } from './content-files';
+
+export type ValidationCheck = 'links' | 'anchors' | 'images' | 'locale' | 'descriptions' | 'duplicates' | 'tags' | 'languages';
+
+export interface ValidationIssue {
+  check: ValidationCheck;
+  // The content file or built page the problem is in
+  source: string;
+  message: string;
+}
+
+export const checkTitles: Record<ValidationCheck, string> = {
+  links: 'Broken internal links',
+  anchors: 'Missing anchors',
+  images: 'Missing images',
+  locale: 'Links into another language',
+  descriptions: 'Missing descriptions',
+  duplicates: 'Duplicate slugs or titles',
+  tags: 'Tags outside the taxonomy',
+  languages: 'Language directory mismatches',
+};
+
+function findDuplicates<T>(items: T[], key: (item: T) => string) {
+  const groups = new Map<string, T[]>();
+  for (const item of items) groups.set(key(item), [...(groups.get(key(item)) ?? []), item]);
+  return [...groups.values()].filter((group) => group.length > 1);
+}
+
+/**
+ * Frontmatter problems in the blog and projects collections. Drafts only need
+ * unique slugs; everything else is checked once a post is published.
+ */
+export function validateContent(contentDir = 'src/content', publicDir = 'public'): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const allowedTags = new Set<string>(tagTaxonomy);
+
+  for (const collection of ['blog', 'projects']) {
+    const files = readContentFiles(collection, contentDir);
+    const published = files.filter(isPublishedFile);
+    const source = (file: { file: string }) => `src/content/${collection}/${file.file}`;
+
+    for (const file of files) {
+      const declared = typeof file.data.lang === 'string' ? file.data.lang : defaultLang;
+      if (declared !== file.lang) {
+        issues.push({ check: 'languages', source: source(file), message: `is in the ${file.lang} directory but has lang "${declared}"` });
+      }
+    }
+
+    for (const group of findDuplicates(files, (file) => `${file.lang}:${file.slug}`)) {
+      issues.push({
+        check: 'duplicates',
+        source: source(group[0]),
+        message: `slug "${group[0].slug}" in ${group[0].lang} is also used by ${group.slice(1).map(source).join(', ')}`,
+      });
+    }
+    for (const group of findDuplicates(published, (file) => `${file.lang}:${String(file.data.title).toLowerCase()}`)) {
+      issues.push({
+        check: 'duplicates',
+        source: source(group[0]),
+        message: `title "${group[0].data.title}" is also used by ${group.slice(1).map(source).join(', ')}`,
+      });
+    }
+
+    for (const file of published) {
+      if (typeof file.data.description !== 'string' || !file.data.description.trim()) {
+        issues.push({ check: 'descriptions', source: source(file), message: 'has no description' });
+      }
+
+      const image = file.data.image;
+      if (typeof image === 'string' && image.startsWith('/') && !existsSync(join(publicDir, image))) {
+        issues.push({ check: 'images', source: source(file), message: `image ${image} is not in ${publicDir}/` });
+      }
+
+      // Project tags are free-form categories, translated per language
+      if (collection !== 'blog') continue;
+      for (const tag of [file.data.tags ?? []].flat().map(String)) {
+        if (!allowedTags.has(tag)) {
+          issues.push({ check: 'tags', source: source(file), message: `tag "${tag}" is not in src/data/tags.ts` });
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+interface BuiltPage {
+  path: string;
+  html: string;
+  ids: Set<string>;
+}
+
+function findHtmlFiles(dir: string, base = dir): string[] {
+  return readdirSync(dir).flatMap((name) => {
+    const file = join(dir, name);
+    if (statSync(file).isDirectory()) return findHtmlFiles(file, base);
+    return name.endsWith('.html') ? [`/${relative(base, file).replaceAll('\\', '/')}`] : [];
+  });
+}
+
+function decodeEntities(value: string) {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function getAttributes(tag: string) {
+  const attributes = new Map<string, string>();
+  for (const [, name, , value] of tag.matchAll(/\s([\w:-]+)=(["'])(.*?)\2/g)) {
+    attributes.set(name.toLowerCase(), decodeEntities(value));
+  }
+  return attributes;
+}
+
+function readPages(distDir: string): Map<string, BuiltPage> {
+  const pages = new Map<string, BuiltPage>();
+
+  for (const file of findHtmlFiles(distDir)) {
+    // Scripts and templates build their markup in the browser, so their strings are not links
+    const html = readFileSync(join(distDir, file), 'utf-8').replace(/<(script|template)\b[\s\S]*?<\/\1>/g, '');
+    const ids = new Set([...html.matchAll(/\s(?:id|name)=["']([^"']+)["']/g)].map(([, id]) => decodeEntities(id)));
+    const path = file.replace(/(^|\/)index\.html$/, '$1').replace(/\.html$/, '');
+    pages.set(path, { path, html, ids });
+  }
+  return pages;
+}
+
+// The built file a site path is served from, if any
+function resolveTarget(distDir: string, pages: Map<string, BuiltPage>, pathname: string) {
+  const path = decodeURIComponent(pathname);
+  // Directory pages are served with a trailing slash, `404.html` and the like without
+  const page = pages.get(path) ?? pages.get(path.endsWith('/') ? path.slice(0, -1) : `${path}/`);
+  if (page) return { page, exists: true };
+  return { page: undefined, exists: !path.endsWith('/') && existsSync(join(distDir, path)) };
+}
+
+/**
+ * Internal links, anchors and images in the built site. Every `href` and `src`
+ * on the site's own origin must resolve to a built file, and every fragment to
+ * an element id on the target page. A relative link from a localized page to
+ * another language's version of a page that exists in its own language is
+ * reported too, unless `hreflang` marks it as a deliberate switch of language.
+ */
+export function validateLinks(distDir: string, site: URL): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const pages = readPages(distDir);
+
+  for (const page of pages.values()) {
+    const source = page.path;
+    const pageUrl = new URL(page.path, site);
+    const pageLang = getLangFromUrl(pageUrl);
+
+    for (const [tag, element] of page.html.matchAll(/<(a|link|img|source|meta)\b[^>]*>/g)) {
+      const attributes = getAttributes(tag);
+      const reference =
+        element === 'meta'
+          ? /^(og|twitter):image$/.test(attributes.get('property') ?? attributes.get('name') ?? '') && attributes.get('content')
+          : attributes.get(element === 'img' || element === 'source' ? 'src' : 'href');
+      if (!reference || /^(mailto|tel|javascript|data):/.test(reference)) continue;
+
+      const url = new URL(reference, pageUrl);
+      if (url.origin !== site.origin) continue;
+
+      const { page: target, exists } = resolveTarget(distDir, pages, url.pathname);
+      if (!exists) {
+        const check = element === 'a' || element === 'link' ? 'links' : 'images';
+        issues.push({ check, source, message: `${reference} does not exist` });
+        continue;
+      }
+
+      const fragment = decodeURIComponent(url.hash.slice(1));
+      if (fragment && target && !target.ids.has(fragment)) {
+        issues.push({ check: 'anchors', source, message: `${reference} has no element with id "${fragment}"` });
+      }
+
+      // Absolute URLs name the site itself, like a project's website link, rather than a page in it
+      const sitePath = !/^[a-z][a-z\d+.-]*:/i.test(reference);
+      if (element === 'a' && sitePath && pageLang !== defaultLang && target && !attributes.has('hreflang')) {
+        const targetLang = getLangFromUrl(url);
+        const localized = `/${pageLang}${getUnlocalizedPath(url.pathname)}`;
+        if (targetLang !== pageLang && targetLang in languages && resolveTarget(distDir, pages, localized).page) {
+          issues.push({ check: 'locale', source, message: `${reference} leaves ${pageLang}; link to ${localized} instead` });
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+/** Issues grouped by check, one line each, for the build log and the CI job summary. */
+export function formatReport(issues: ValidationIssue[]) {
+  const lines: string[] = [];
+  for (const [check, title] of Object.entries(checkTitles)) {
+    const found = issues.filter((issue) => issue.check === check);
+    if (found.length === 0) continue;
+    lines.push(`${title} (${found.length})`);
+    for (const issue of found) lines.push(`  ${issue.source}: ${issue.message}`);
+  }
+  return lines;
+}